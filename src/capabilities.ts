@@ -3,19 +3,28 @@ import {
   UnregistrationParams, UnregistrationRequest
 } from 'vscode-languageserver'
 import {
-  ClientCapabilities, DidChangeTextDocumentNotification, DidChangeWatchedFilesNotification, DidCloseTextDocumentNotification, DidOpenTextDocumentNotification,
+  CallHierarchyPrepareRequest, ClientCapabilities, CodeActionRequest, CodeLensRequest, ColorPresentationRequest, CompletionRequest, DeclarationRequest, DefinitionRequest,
+  DidChangeTextDocumentNotification, DidChangeWatchedFilesNotification, DidCloseTextDocumentNotification, DidOpenTextDocumentNotification,
   DidSaveTextDocumentNotification,
+  DocumentColorRequest, DocumentDiagnosticRequest, DocumentFormattingRequest, DocumentHighlightRequest, DocumentLinkRequest, DocumentOnTypeFormattingRequest,
+  DocumentRangeFormattingRequest, DocumentSelector, DocumentSymbolRequest, ExecuteCommandRequest,
   FileChangeType,
   FileSystemWatcher,
+  FoldingRangeRequest, HoverRequest, ImplementationRequest, InlayHintRequest, InlineValueRequest, LinkedEditingRangeRequest, MonikerRequest, PrepareRenameRequest,
   ProtocolNotificationType,
+  ReferencesRequest, RenameRequest,
   SaveOptions,
-  ServerCapabilities, TextDocumentRegistrationOptions, TextDocumentSaveRegistrationOptions, TextDocumentSyncKind, TextDocumentSyncOptions, WillSaveTextDocumentNotification, WillSaveTextDocumentWaitUntilRequest, WorkspaceFoldersRequest
+  SelectionRangeRequest, SemanticTokensDeltaRequest, SemanticTokensRangeRequest, SemanticTokensRegistrationType, SemanticTokensRequest,
+  ServerCapabilities, SignatureHelpRequest, TextDocumentRegistrationOptions, TextDocumentSaveRegistrationOptions, TextDocumentSyncKind, TextDocumentSyncOptions,
+  TypeDefinitionRequest, TypeHierarchyPrepareRequest, WillSaveTextDocumentNotification, WillSaveTextDocumentWaitUntilRequest, WorkspaceDiagnosticRequest,
+  WorkspaceFoldersRequest, WorkspaceSymbolRequest
 } from 'vscode-languageserver-protocol'
 import * as rpc from 'vscode-jsonrpc'
 import winston from 'winston'
 import { TextDocument } from 'vscode-languageserver-textdocument'
 import { matchDocument, matchFileSystemEventKind, testGlobPattern } from './tools/lsp'
 import { DisposableCollection } from './tools/disposable'
+import { negotiatePositionEncoding, serverPositionEncoding } from './position-encoding'
 
 export function isNumber (value: unknown): value is number {
   return typeof value === 'number' || value instanceof Number
@@ -42,7 +51,154 @@ export function resolveTextDocumentSync (textDocumentSync?: TextDocumentSyncOpti
   return textDocumentSync
 }
 
-export function transformServerCapabilities<T> (serverCapabilities: ServerCapabilities<T>, disableSaveNotifications: boolean): ServerCapabilities<T> {
+interface DynamicRegistrationClientCapabilities {
+  dynamicRegistration?: boolean
+}
+
+interface FoldableCapability {
+  /**
+   * The registration method
+   */
+  method: string
+  /**
+   * The requests which are only available when the capability is registered
+   */
+  requests: string[]
+  serverCapability: keyof ServerCapabilities
+  getClientCapability: (capabilities: ClientCapabilities) => DynamicRegistrationClientCapabilities | undefined
+}
+
+function textDocumentCapability (
+  serverCapability: keyof ServerCapabilities,
+  clientCapability: keyof NonNullable<ClientCapabilities['textDocument']>,
+  ...requests: { method: string }[]
+): FoldableCapability {
+  return {
+    method: requests[0]!.method,
+    requests: requests.map(request => request.method),
+    serverCapability,
+    getClientCapability: capabilities => capabilities.textDocument?.[clientCapability] as DynamicRegistrationClientCapabilities | undefined
+  }
+}
+
+/**
+ * The dynamic registrations which have a static capability equivalent
+ */
+const foldableCapabilities: FoldableCapability[] = [
+  textDocumentCapability('completionProvider', 'completion', CompletionRequest),
+  textDocumentCapability('hoverProvider', 'hover', HoverRequest),
+  textDocumentCapability('signatureHelpProvider', 'signatureHelp', SignatureHelpRequest),
+  textDocumentCapability('declarationProvider', 'declaration', DeclarationRequest),
+  textDocumentCapability('definitionProvider', 'definition', DefinitionRequest),
+  textDocumentCapability('typeDefinitionProvider', 'typeDefinition', TypeDefinitionRequest),
+  textDocumentCapability('implementationProvider', 'implementation', ImplementationRequest),
+  textDocumentCapability('referencesProvider', 'references', ReferencesRequest),
+  textDocumentCapability('documentHighlightProvider', 'documentHighlight', DocumentHighlightRequest),
+  textDocumentCapability('documentSymbolProvider', 'documentSymbol', DocumentSymbolRequest),
+  textDocumentCapability('codeActionProvider', 'codeAction', CodeActionRequest),
+  textDocumentCapability('codeLensProvider', 'codeLens', CodeLensRequest),
+  textDocumentCapability('documentLinkProvider', 'documentLink', DocumentLinkRequest),
+  textDocumentCapability('colorProvider', 'colorProvider', DocumentColorRequest, ColorPresentationRequest.type),
+  textDocumentCapability('documentFormattingProvider', 'formatting', DocumentFormattingRequest),
+  textDocumentCapability('documentRangeFormattingProvider', 'rangeFormatting', DocumentRangeFormattingRequest),
+  textDocumentCapability('documentOnTypeFormattingProvider', 'onTypeFormatting', DocumentOnTypeFormattingRequest),
+  textDocumentCapability('renameProvider', 'rename', RenameRequest, PrepareRenameRequest),
+  textDocumentCapability('foldingRangeProvider', 'foldingRange', FoldingRangeRequest),
+  textDocumentCapability('selectionRangeProvider', 'selectionRange', SelectionRangeRequest),
+  textDocumentCapability('linkedEditingRangeProvider', 'linkedEditingRange', LinkedEditingRangeRequest),
+  textDocumentCapability('callHierarchyProvider', 'callHierarchy', CallHierarchyPrepareRequest),
+  textDocumentCapability('semanticTokensProvider', 'semanticTokens', SemanticTokensRegistrationType, SemanticTokensRequest, SemanticTokensDeltaRequest, SemanticTokensRangeRequest),
+  textDocumentCapability('monikerProvider', 'moniker', MonikerRequest),
+  textDocumentCapability('typeHierarchyProvider', 'typeHierarchy', TypeHierarchyPrepareRequest),
+  textDocumentCapability('inlineValueProvider', 'inlineValue', InlineValueRequest),
+  textDocumentCapability('inlayHintProvider', 'inlayHint', InlayHintRequest),
+  textDocumentCapability('diagnosticProvider', 'diagnostic', DocumentDiagnosticRequest, WorkspaceDiagnosticRequest),
+  {
+    method: WorkspaceSymbolRequest.method,
+    requests: [WorkspaceSymbolRequest.method],
+    serverCapability: 'workspaceSymbolProvider',
+    getClientCapability: capabilities => capabilities.workspace?.symbol
+  },
+  {
+    method: ExecuteCommandRequest.type.method,
+    requests: [ExecuteCommandRequest.type.method],
+    serverCapability: 'executeCommandProvider',
+    getClientCapability: capabilities => capabilities.workspace?.executeCommand
+  }
+]
+
+function getFoldableCapability (registrationMethod: string): FoldableCapability | undefined {
+  return foldableCapabilities.find(capability => capability.method === registrationMethod)
+}
+
+function getRequestFoldableCapability (requestMethod: string): FoldableCapability | undefined {
+  return foldableCapabilities.find(capability => capability.requests.includes(requestMethod))
+}
+
+function hasStaticCapability (serverCapabilities: ServerCapabilities<unknown>, capability: FoldableCapability): boolean {
+  return (serverCapabilities[capability.serverCapability] ?? false) !== false
+}
+
+/**
+ * @returns false if the client can't receive the registrations of this method, they need to be folded in the static capabilities
+ */
+export function isDynamicRegistrationSupported (clientCapabilities: ClientCapabilities, registrationMethod: string): boolean {
+  const capability = getFoldableCapability(registrationMethod)
+  return capability == null || (capability.getClientCapability(clientCapabilities)?.dynamicRegistration ?? false)
+}
+
+/**
+ * @returns true if the request belongs to a feature whose registrations are folded in the static capabilities of the client
+ */
+export function isFoldedRequest (clientCapabilities: ClientCapabilities, requestMethod: string): boolean {
+  const capability = getRequestFoldableCapability(requestMethod)
+  return capability != null && !isDynamicRegistrationSupported(clientCapabilities, capability.method)
+}
+
+/**
+ * Merges the options of several registrations, the arrays (trigger characters, commands...) are concatenated
+ */
+function mergeRegistrationOptions (options: Record<string, unknown>, otherOptions: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...options }
+  for (const [key, value] of Object.entries(otherOptions)) {
+    const existingValue = merged[key]
+    merged[key] = Array.isArray(existingValue) && Array.isArray(value) ? Array.from(new Set([...existingValue, ...value])) : existingValue ?? value
+  }
+  return merged
+}
+
+/**
+ * Adds the dynamic registrations the client doesn't support to the static capabilities
+ * The document selectors are dropped, the requests on other documents are rejected by the proxy
+ */
+function foldDynamicRegistrations<T> (serverCapabilities: ServerCapabilities<T>, registrations: readonly Registration[], clientCapabilities: ClientCapabilities): ServerCapabilities<T> {
+  const foldedCapabilities: ServerCapabilities<T> = { ...serverCapabilities }
+  const foldedOptions = new Map<keyof ServerCapabilities, Record<string, unknown>>()
+  for (const registration of registrations) {
+    const capability = getFoldableCapability(registration.method)
+    if (capability == null || isDynamicRegistrationSupported(clientCapabilities, registration.method) || hasStaticCapability(serverCapabilities, capability)) {
+      continue
+    }
+    const { documentSelector, id, ...options } = (registration.registerOptions ?? {}) as { documentSelector?: DocumentSelector | null, id?: string, [key: string]: unknown }
+    const existingOptions = foldedOptions.get(capability.serverCapability)
+    foldedOptions.set(capability.serverCapability, existingOptions != null ? mergeRegistrationOptions(existingOptions, options) : options)
+  }
+  for (const [serverCapability, options] of foldedOptions) {
+    Object.assign(foldedCapabilities, { [serverCapability]: Object.keys(options).length > 0 ? options : true })
+  }
+  return foldedCapabilities
+}
+
+/**
+ * @param registrations The current dynamic registrations, folded in the static capabilities if the client doesn't support them
+ */
+export function transformServerCapabilities<T> (
+  capabilities: ServerCapabilities<T>,
+  disableSaveNotifications: boolean,
+  registrations: readonly Registration[] = [],
+  clientCapabilities: ClientCapabilities = {}
+): ServerCapabilities<T> {
+  const serverCapabilities = foldDynamicRegistrations(capabilities, registrations, clientCapabilities)
   const textDocumentSync = resolveTextDocumentSync(serverCapabilities.textDocumentSync)
   return {
     ...serverCapabilities,
@@ -54,6 +210,8 @@ export function transformServerCapabilities<T> (serverCapabilities: ServerCapabi
       willSave: false,
       change: TextDocumentSyncKind.Incremental
     },
+    // The positions are converted for each client
+    positionEncoding: negotiatePositionEncoding(clientCapabilities),
     workspace: {
       workspaceFolders: {
         supported: false
@@ -65,6 +223,16 @@ export function transformServerCapabilities<T> (serverCapabilities: ServerCapabi
 export function transformClientCapabilities (clientCapabilities: ClientCapabilities, addDidWatchedCapabilities: boolean): ClientCapabilities {
   return {
     ...clientCapabilities,
+    general: {
+      ...(clientCapabilities.general ?? {}),
+      // The documents are handled as javascript strings
+      positionEncodings: [serverPositionEncoding]
+    },
+    window: {
+      ...(clientCapabilities.window ?? {}),
+      // Progresses are dispatched to the clients supporting them
+      workDoneProgress: true
+    },
     workspace: {
       ...(clientCapabilities.workspace ?? {}),
       didChangeWatchedFiles: addDidWatchedCapabilities
@@ -87,9 +255,13 @@ const IGNORED_REGISTRATION_METHOD = new Set([
   DidCloseTextDocumentNotification.method,
   WorkspaceFoldersRequest.type.method
 ])
+/**
+ * The registrations the client doesn't support are not sent, they were folded in the static capabilities when the client joined
+ */
 export function synchronizeLanguageServerCapabilities (
   watchableServerCapabilities: WatchableServerCapabilities,
   clientConnection: rpc.MessageConnection,
+  clientCapabilities: ClientCapabilities,
   logger?: winston.Logger
 ): Disposable {
   const disposableCollection = new DisposableCollection()
@@ -98,7 +270,8 @@ export function synchronizeLanguageServerCapabilities (
     const sendRegistrationRequest = (registrations: readonly Registration[]) => {
       // Send registration one by one even if it's possible to send them all at once
       // Because C# LSP sends duplicated capabilities that make the client ignore the next capabilities in the list
-      for (const registration of registrations.filter(r => !IGNORED_REGISTRATION_METHOD.has(r.method)).map(adaptRegistration)) {
+      const supportedRegistrations = registrations.filter(r => !IGNORED_REGISTRATION_METHOD.has(r.method) && isDynamicRegistrationSupported(clientCapabilities, r.method))
+      for (const registration of supportedRegistrations.map(adaptRegistration)) {
         clientConnection.sendRequest(RegistrationRequest.type, {
           registrations: [registration]
         }).catch(error => {
@@ -114,8 +287,12 @@ export function synchronizeLanguageServerCapabilities (
       sendRegistrationRequest(params.registrations)
     }))
     disposableCollection.push(watchableServerCapabilities.onUnregistrationRequest(async (params: UnregistrationParams) => {
+      const unregisterations = params.unregisterations.filter(u => isDynamicRegistrationSupported(clientCapabilities, u.method))
+      if (unregisterations.length === 0) {
+        return
+      }
       try {
-        await clientConnection.sendRequest(UnregistrationRequest.type, params)
+        await clientConnection.sendRequest(UnregistrationRequest.type, { unregisterations })
       } catch (error) {
         logger?.error('Unable to send unregistration requestion to client', { error })
       }
@@ -220,6 +397,18 @@ export class WatchableServerCapabilities {
     }
   }
 
+  /**
+   * Replaces the capabilities by the ones of a new server instance and drops every dynamic registration
+   */
+  public reset (capabilities: ServerCapabilities<void>): void {
+    this.capabilities = capabilities
+    if (this.registrationRequests.length > 0) {
+      this.handleUnregistrationRequest({
+        unregisterations: this.registrationRequests.map(({ id, method }) => ({ id, method }))
+      })
+    }
+  }
+
   public getCapabilities (): ServerCapabilities<void> {
     return this.capabilities
   }
@@ -266,6 +455,21 @@ export class WatchableServerCapabilities {
     }
   }
 
+  /**
+   * A client which doesn't support the dynamic registrations may send requests for a feature the server unregistered since, or for documents the registrations don't match
+   * @param document The document the request is about, if any
+   */
+  public isRequestAvailable (method: string, document?: TextDocument): boolean {
+    const capability = getRequestFoldableCapability(method)
+    if (capability == null || hasStaticCapability(this.capabilities, capability)) {
+      return true
+    }
+    return this.registrationRequests.filter(r => r.method === capability.method).some(registration => {
+      const documentSelector = (registration.registerOptions as Partial<TextDocumentRegistrationOptions> | undefined)?.documentSelector
+      return document == null || documentSelector == null || matchDocument(documentSelector, document)
+    })
+  }
+
   public getFileSystemWatchers (): FileSystemWatcher[] {
     return this.getDynamicRegistrationOptions(DidChangeWatchedFilesNotification.type).flatMap(options => options.watchers)
   }
@@ -0,0 +1,132 @@
+import setValueBySection from 'set-value'
+
+export enum ConfigurationConflictResolution {
+  /**
+   * The host configuration always wins, the clients can only provide values the host doesn't define
+   */
+  HostLocked = 'host-locked',
+  /**
+   * The last client which changed its configuration wins
+   */
+  LastWriter = 'last-writer',
+  /**
+   * For scoped configuration requests, the first client having the document open wins, otherwise the last writer wins
+   */
+  DocumentOwner = 'document-owner'
+}
+
+export interface ConfigurationMergePolicy {
+  /**
+   * The configuration sections the clients are allowed to control
+   */
+  clientSections: string[]
+  conflictResolution?: ConfigurationConflictResolution
+}
+
+export function getValueBySection (config: unknown, section: string): unknown {
+  let value = config
+  for (const key of section.split('.')) {
+    if (typeof value !== 'object' || value == null) {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function isEqualOrParentSection (section: string, parentCandidate: string): boolean {
+  return section === parentCandidate || section.startsWith(`${parentCandidate}.`)
+}
+
+interface ClientSettings {
+  settings: unknown
+  updateIndex: number
+}
+
+/**
+ * Merges the host configuration with the settings declared by the clients, according to a merge policy
+ * @template C The client identifier
+ */
+export class ConfigurationMerger<C> {
+  private clientSettings = new Map<C, ClientSettings>()
+  private lastUpdateIndex = 0
+
+  constructor (
+    private policy: ConfigurationMergePolicy,
+    private getHostConfiguration: (section: string, scopeUri?: string) => Promise<unknown>
+  ) {
+  }
+
+  public setClientSettings (client: C, settings: unknown): void {
+    this.clientSettings.set(client, {
+      settings,
+      updateIndex: ++this.lastUpdateIndex
+    })
+  }
+
+  public deleteClient (client: C): boolean {
+    return this.clientSettings.delete(client)
+  }
+
+  /**
+   * @param scopeUri The resource the configuration is requested for, if any
+   * @param owners The clients having the document related to the configuration request open, in binding order
+   */
+  public async getConfiguration (section: string, scopeUri?: string, owners?: C[]): Promise<unknown> {
+    const hostValue = await this.getHostConfiguration(section, scopeUri)
+    for (const clientSection of this.policy.clientSections) {
+      if (isEqualOrParentSection(section, clientSection)) {
+        // The whole requested section is controlled by the clients
+        const clientValue = this.getClientValue(section, owners)
+        if (clientValue === undefined || (this.isHostLocked() && hostValue !== undefined)) {
+          return hostValue
+        }
+        return clientValue
+      }
+    }
+
+    let value = hostValue
+    for (const clientSection of this.policy.clientSections) {
+      if (!isEqualOrParentSection(clientSection, section)) {
+        continue
+      }
+      // Only a sub-section of the requested section is controlled by the clients
+      const subSection = clientSection.slice(section.length + 1)
+      const clientValue = this.getClientValue(clientSection, owners)
+      if (clientValue === undefined || (this.isHostLocked() && getValueBySection(value, subSection) !== undefined)) {
+        continue
+      }
+      if (typeof value !== 'object' || value == null) {
+        value = {}
+      } else if (value === hostValue) {
+        // Never mutate the host configuration
+        value = JSON.parse(JSON.stringify(value))
+      }
+      setValueBySection(value as object, subSection, clientValue)
+    }
+    return value
+  }
+
+  private isHostLocked () {
+    return (this.policy.conflictResolution ?? ConfigurationConflictResolution.HostLocked) === ConfigurationConflictResolution.HostLocked
+  }
+
+  private getClientValue (section: string, owners?: C[]): unknown {
+    const candidates = Array.from(this.clientSettings.entries())
+      .map(([client, { settings, updateIndex }]) => ({ client, value: getValueBySection(settings, section), updateIndex }))
+      .filter(candidate => candidate.value !== undefined)
+
+    if (this.policy.conflictResolution === ConfigurationConflictResolution.DocumentOwner && owners != null) {
+      for (const owner of owners) {
+        const ownerCandidate = candidates.find(candidate => candidate.client === owner)
+        if (ownerCandidate != null) {
+          return ownerCandidate.value
+        }
+      }
+    }
+
+    return candidates.reduce<typeof candidates[number] | undefined>((lastWriter, candidate) => {
+      return lastWriter == null || candidate.updateIndex > lastWriter.updateIndex ? candidate : lastWriter
+    }, undefined)?.value
+  }
+}
@@ -55,3 +55,36 @@ export const forwardedClientRequests: RequestType<unknown, unknown, unknown>[] =
   WorkspaceSymbolRequest.type,
   WorkspaceSymbolResolveRequest.type
 ]
+
+/**
+ * Client requests during which the server is likely to send requests (applyEdit, showDocument) to the client
+ */
+export const originatingClientRequests: RequestType<unknown, unknown, unknown>[] = [
+  CodeActionRequest.type,
+  CodeActionResolveRequest.type,
+  ExecuteCommandRequest.type,
+  RenameRequest.type
+]
+
+/**
+ * Client requests which results may depend on other documents than the one in the params
+ */
+export const workspaceClientRequests: RequestType<unknown, unknown, unknown>[] = [
+  CallHierarchyIncomingCallsRequest.type,
+  CallHierarchyOutgoingCallsRequest.type,
+  ImplementationRequest.type,
+  ReferencesRequest.type,
+  RenameRequest.type,
+  TypeHierarchySubtypesRequest.type,
+  TypeHierarchySupertypesRequest.type,
+  WorkspaceDiagnosticRequest.type,
+  WorkspaceSymbolRequest.type,
+  WorkspaceSymbolResolveRequest.type
+]
+
+/**
+ * Client requests which have side effects, their results should never be shared between clients
+ */
+export const nonCacheableClientRequests: RequestType<unknown, unknown, unknown>[] = [
+  ExecuteCommandRequest.type
+]
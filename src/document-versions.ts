@@ -0,0 +1,99 @@
+import { DocumentUri, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument'
+
+/**
+ * Keeps track of the client document version corresponding to each server document version
+ * A client version is only associated to a server version if the client and server contents were the same
+ * @template C The client identifier
+ */
+export class DocumentVersionLedger<C> {
+  private ledgers = new Map<C, Map<DocumentUri, Map<number, number>>>()
+
+  constructor (private maxVersionsPerDocument: number = 50) {
+  }
+
+  public record (client: C, uri: DocumentUri, serverVersion: number, clientVersion: number): void {
+    let clientLedger = this.ledgers.get(client)
+    if (clientLedger == null) {
+      clientLedger = new Map()
+      this.ledgers.set(client, clientLedger)
+    }
+    let versions = clientLedger.get(uri)
+    if (versions == null) {
+      versions = new Map()
+      clientLedger.set(uri, versions)
+    }
+    versions.set(serverVersion, clientVersion)
+    if (versions.size > this.maxVersionsPerDocument) {
+      // Maps are iterated in insertion order, so the first one is the oldest
+      versions.delete(versions.keys().next().value)
+    }
+  }
+
+  /**
+   * @returns The client version which had the same content as the given server version
+   */
+  public getClientVersion (client: C, uri: DocumentUri, serverVersion: number): number | undefined {
+    return this.ledgers.get(client)?.get(uri)?.get(serverVersion)
+  }
+
+  public deleteDocument (uri: DocumentUri, client?: C): void {
+    if (client != null) {
+      this.ledgers.get(client)?.delete(uri)
+    } else {
+      for (const clientLedger of this.ledgers.values()) {
+        clientLedger.delete(uri)
+      }
+    }
+  }
+
+  public deleteClient (client: C): void {
+    this.ledgers.delete(client)
+  }
+}
+
+interface DocumentChanges {
+  version: number
+  changes: TextDocumentContentChangeEvent[]
+}
+
+/**
+ * Keeps the last changes sent to the server for each document
+ * so the positions computed by the server on a previous version can be moved to the current version
+ */
+export class DocumentChangeHistory {
+  private histories = new Map<DocumentUri, DocumentChanges[]>()
+
+  constructor (private maxVersionsPerDocument: number = 50) {
+  }
+
+  public open (uri: DocumentUri, version: number): void {
+    this.histories.set(uri, [{ version, changes: [] }])
+  }
+
+  public record (uri: DocumentUri, version: number, changes: TextDocumentContentChangeEvent[]): void {
+    const history = this.histories.get(uri)
+    if (history == null) {
+      return
+    }
+    history.push({ version, changes })
+    if (history.length > this.maxVersionsPerDocument) {
+      history.shift()
+    }
+  }
+
+  /**
+   * @returns The changes applied since the given version, by batch, or undefined if the version is unknown
+   */
+  public getChangesSince (uri: DocumentUri, version: number): TextDocumentContentChangeEvent[][] | undefined {
+    const history = this.histories.get(uri) ?? []
+    const index = history.findIndex(changes => changes.version === version)
+    if (index < 0) {
+      return undefined
+    }
+    return history.slice(index + 1).map(({ changes }) => changes)
+  }
+
+  public deleteDocument (uri: DocumentUri): void {
+    this.histories.delete(uri)
+  }
+}
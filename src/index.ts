@@ -1,18 +1,38 @@
-import { BindContext, createLanguageClient, LanguageClient, LanguageClientDisposeReason, LanguageClientOptions } from './language-client'
-import { bindLanguageClient, ConnectionClosedError, EndCause, LanguageClientBindingOptions, UnknownRequestHandler } from './language-client-mutualization'
-import { ConnectionRequestCache } from './tools/cache'
+import { BindContext, createLanguageClient, HostInitializeParams, LanguageClient, LanguageClientDisposeReason, LanguageClientOptions, LanguageServerConnectionFactory, LanguageServerRestartPolicy, DocumentSynchronizationPolicy, DiffWorkersOptions } from './language-client'
+import { bindLanguageClient, ConnectionClosedError, EndCause, LanguageClientBindingOptions, LanguageClientResolver, UnknownRequestHandler } from './language-client-mutualization'
+import { LanguageClientPool, LanguageClientPoolOptions } from './language-client-pool'
+import { LanguageClientShards, LanguageClientShardsOptions, ShardingStrategy } from './language-client-shards'
+import { InitializeParamsCompatibilityPolicy, InitializeParamsDifference, InitializeParamsDifferenceSeverity } from './initialize-params'
+import { AsyncConnectionRequestCache, ConnectionRequestCache, createAsyncRequestCache, MemoryRequestCache, MemoryRequestCacheOptions, RequestCacheStats } from './tools/cache'
+import { ConfigurationConflictResolution, ConfigurationMergePolicy } from './configuration'
 import { DisposableCollection } from './tools/disposable'
+import { ServerRequestStrategy } from './tools/request-handler'
+import { ResponseAdapter } from './response-adapters'
 
-export { bindLanguageClient, createLanguageClient, DisposableCollection }
+export { bindLanguageClient, EndCause, createLanguageClient, DisposableCollection, ConfigurationConflictResolution, ServerRequestStrategy, MemoryRequestCache, createAsyncRequestCache, InitializeParamsDifferenceSeverity, LanguageClientPool, LanguageClientShards, ShardingStrategy }
 
 export type {
   LanguageClientDisposeReason,
   LanguageClient,
   LanguageClientOptions,
+  HostInitializeParams,
+  LanguageServerConnectionFactory,
+  LanguageServerRestartPolicy,
+  DocumentSynchronizationPolicy,
+  DiffWorkersOptions,
   LanguageClientBindingOptions,
+  LanguageClientResolver,
+  LanguageClientPoolOptions,
+  LanguageClientShardsOptions,
   UnknownRequestHandler,
+  ResponseAdapter,
   ConnectionClosedError,
+  InitializeParamsCompatibilityPolicy,
+  InitializeParamsDifference,
   BindContext,
   ConnectionRequestCache,
-  EndCause
+  AsyncConnectionRequestCache,
+  MemoryRequestCacheOptions,
+  RequestCacheStats,
+  ConfigurationMergePolicy
 }
@@ -0,0 +1,83 @@
+import { InitializeParams } from 'vscode-languageserver-protocol'
+import { isDeepStrictEqual } from 'util'
+
+export enum InitializeParamsDifferenceSeverity {
+  /**
+   * The server would not behave as the client expects, the client is rejected
+   */
+  Fatal = 'fatal',
+  /**
+   * The proxy adapts the messages to the client, a warning is logged
+   */
+  Adaptable = 'adaptable',
+  /**
+   * The difference has no impact
+   */
+  Ignorable = 'ignorable'
+}
+
+export type ComparedInitializeParam = 'rootUri' | 'rootPath' | 'workspaceFolders' | 'initializationOptions' | 'locale' | 'positionEncodings' | 'trace' | 'capabilities'
+
+/**
+ * The severity of a difference for each compared param, it replaces the default one
+ */
+export type InitializeParamsCompatibilityPolicy = Partial<Record<ComparedInitializeParam, InitializeParamsDifferenceSeverity>>
+
+export interface InitializeParamsDifference {
+  param: ComparedInitializeParam
+  serverValue: unknown
+  clientValue: unknown
+  severity: InitializeParamsDifferenceSeverity
+}
+
+const defaultSeverities: Record<ComparedInitializeParam, InitializeParamsDifferenceSeverity> = {
+  // The server would resolve the files of another workspace
+  rootUri: InitializeParamsDifferenceSeverity.Fatal,
+  rootPath: InitializeParamsDifferenceSeverity.Fatal,
+  workspaceFolders: InitializeParamsDifferenceSeverity.Fatal,
+  initializationOptions: InitializeParamsDifferenceSeverity.Fatal,
+  // The positions are converted for each client
+  positionEncodings: InitializeParamsDifferenceSeverity.Adaptable,
+  // The results are always adapted to the capabilities of each client, a difference is expected
+  capabilities: InitializeParamsDifferenceSeverity.Ignorable,
+  locale: InitializeParamsDifferenceSeverity.Ignorable,
+  trace: InitializeParamsDifferenceSeverity.Ignorable
+}
+
+const paramGetters: Record<ComparedInitializeParam, (params: InitializeParams) => unknown> = {
+  rootUri: params => params.rootUri,
+  rootPath: params => params.rootPath ?? null,
+  workspaceFolders: params => params.workspaceFolders ?? null,
+  initializationOptions: params => params.initializationOptions ?? null,
+  positionEncodings: params => params.capabilities.general?.positionEncodings ?? null,
+  capabilities: params => params.capabilities,
+  locale: params => params.locale ?? null,
+  trace: params => params.trace ?? null
+}
+
+export function getInitializeParam (params: InitializeParams, param: ComparedInitializeParam): unknown {
+  return paramGetters[param](params)
+}
+
+/**
+ * Only the initialize params of the first client reach the server
+ * @param serverParams The params the server was initialized with
+ * @param clientParams The params of a client joining the server
+ * @returns The differences, with their severity according to the policy
+ */
+export function compareInitializeParams (serverParams: InitializeParams, clientParams: InitializeParams, policy: InitializeParamsCompatibilityPolicy = {}): InitializeParamsDifference[] {
+  const differences: InitializeParamsDifference[] = []
+  for (const [param, getParam] of Object.entries(paramGetters) as [ComparedInitializeParam, (params: InitializeParams) => unknown][]) {
+    const serverValue = getParam(serverParams)
+    const clientValue = getParam(clientParams)
+    if (!isDeepStrictEqual(serverValue, clientValue)) {
+      differences.push({
+        param,
+        serverValue,
+        clientValue,
+        severity: policy[param] ?? defaultSeverities[param]
+      })
+    }
+  }
+  return differences
+}
@@ -5,30 +5,69 @@ import {
   DidChangeConfigurationNotification,
   InitializedNotification,
   InitializedParams,
+  InitializeError,
+  InitializeParams,
   InlayHintRefreshRequest,
   InlineValueRefreshRequest,
   PublishDiagnosticsNotification,
   SemanticTokensRefreshRequest,
-  ShowDocumentRequest
+  ShowDocumentRequest,
+  ClientCapabilities,
+  ConfigurationRequest,
+  LogMessageNotification,
+  LogMessageParams,
+  ShowMessageNotification,
+  ShowMessageRequest,
+  ProgressToken,
+  RequestType,
+  WorkDoneProgress,
+  CodeAction,
+  CodeActionRequest,
+  CodeActionResolveRequest,
+  Command,
+  LSPErrorCodes,
+  RenameRequest,
+  WorkspaceEdit,
+  SemanticTokensRequest,
+  SemanticTokensDeltaRequest,
+  SemanticTokensParams,
+  SemanticTokensDeltaParams,
+  SemanticTokensRangeRequest,
+  SemanticTokensRangeParams,
+  SemanticTokens,
+  DocumentDiagnosticRequest,
+  DocumentDiagnosticParams,
+  DocumentDiagnosticReport,
+  WorkspaceDiagnosticRequest,
+  WorkspaceDiagnosticParams,
+  WorkspaceDiagnosticReport,
+  WorkspaceDiagnosticReportPartialResult
 } from 'vscode-languageserver-protocol'
 import {
   TextDocuments,
   createConnection,
   WatchDog,
   ApplyWorkspaceEditRequest,
-  TextDocumentEdit,
   ServerRequestHandler
 } from 'vscode-languageserver/lib/common/api'
 import { DocumentUri, TextDocument } from 'vscode-languageserver-textdocument'
-import { CancellationToken, Disposable, Emitter, HandlerResult } from 'vscode-jsonrpc'
+import { CancellationToken, CancellationTokenSource, Disposable, Emitter, ErrorCodes, Event, HandlerResult, ProgressType, ResponseError } from 'vscode-jsonrpc'
 import ms from 'ms'
+import setValueBySection from 'set-value'
 import winston from 'winston'
-import { forwardedClientRequests } from './constants/lsp'
-import { synchronizeLanguageServerCapabilities, transformServerCapabilities } from './capabilities'
-import { BindContext, LanguageClient, LanguageClientDisposeReason } from './language-client'
+import { forwardedClientRequests, originatingClientRequests } from './constants/lsp'
+import { isFoldedRequest, synchronizeLanguageServerCapabilities, transformServerCapabilities } from './capabilities'
+import { BindContext, ClientDocumentChange, LanguageClient, LanguageClientDisposeReason } from './language-client'
 import pDefer from './tools/p-defer'
 import { timeout, TimeoutError } from './tools/promise'
 import { DisposableCollection } from './tools/disposable'
+import { isWorkDoneProgressValue, synchronizeWorkDoneProgress } from './progress'
+import { getPartialResultToken, getRequestDocumentUris, getWorkDoneToken, getWorkspaceEditDocumentUris } from './tools/lsp'
+import { combineCancellationTokens } from './tools/cancellation'
+import { ClientResultTracker } from './result-tracking'
+import { adaptResponseToClient, adaptWorkspaceEditToClient, ResponseAdapter } from './response-adapters'
+import { compareInitializeParams, InitializeParamsCompatibilityPolicy, InitializeParamsDifferenceSeverity } from './initialize-params'
+import { negotiatePositionEncoding, PositionEncodingConverter } from './position-encoding'
 
 export class ConnectionClosedError extends Error {
   constructor (message: string = 'Connection closed') {
@@ -47,15 +86,40 @@ export interface LanguageClientBindingOptions {
   bindContext?: BindContext
   logger?: winston.Logger
   unknownClientRequestHandler?: UnknownRequestHandler
+  /**
+   * Number of recent server log messages sent to the client when it connects, 20 by default
+   */
+  replayedLogMessages?: number
+  /**
+   * Adapts the server results to the client capabilities, by method, they replace the default adapters
+   */
+  responseAdapters?: Partial<Record<string, ResponseAdapter>>
+  /**
+   * The severity of the differences between the client initialize params and the server ones, by param
+   * By default, a client having a different workspace or different initialization options is rejected
+   */
+  initializeParamsPolicy?: InitializeParamsCompatibilityPolicy
 }
 
+const partialResultProgressType = new ProgressType<unknown>()
+const originatingRequestMethods = new Set(originatingClientRequests.map(request => request.method))
+
 export enum EndCause {
   Client = 'client',
-  Server = 'server'
+  Server = 'server',
+  /**
+   * The client initialize params are not compatible with the ones the server was initialized with, its initialization was rejected
+   */
+  Incompatible = 'incompatible'
 }
 
+/**
+ * Chooses the language client of a client according to its initialize params
+ */
+export type LanguageClientResolver = (initializeParams: InitializeParams) => LanguageClient | Promise<LanguageClient>
+
 export async function bindLanguageClient (
-  languageClient: LanguageClient,
+  languageClientOrResolver: LanguageClient | LanguageClientResolver,
   clientMessageConnection: rpc.MessageConnection,
   options: LanguageClientBindingOptions = {}
 ): Promise<EndCause> {
@@ -95,14 +159,15 @@ export async function bindLanguageClient (
       ])
     }
 
-    type ClientRequestHandler<Params, Result> = [Params, (result: Result) => void]
+    type ClientRequestHandler<Params, Result> = [Params, (result: Result) => void, (error: ResponseError<unknown>) => void]
     async function waitClientRequest<Params, Result, Error> (listen: (handler: ServerRequestHandler<Params, Result, never, Error>) => void): Promise<ClientRequestHandler<Params, Result>> {
       const clientRequestHandlerPromise = new Promise<ClientRequestHandler<Params, Result>>(resolve => {
         async function handleClientRequestMessage (params: Params) {
           const deferred = pDefer<Result>()
           resolve([
             params,
-            (result) => deferred.resolve(result)
+            (result) => deferred.resolve(result),
+            (error) => deferred.reject(error)
           ])
           return deferred.promise
         }
@@ -112,13 +177,36 @@ export async function bindLanguageClient (
       return waitClientMessage(clientRequestHandlerPromise)
     }
 
-    const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument)
-    documents.listen(clientConnection)
     clientConnection.listen()
 
-    const [initParams, sendInitializationResult] = await waitClientRequest(clientConnection.onInitialize)
-    await languageClient.start(initParams)
-    const serverConnection = await languageClient.getConnection()
+    const [initParams, sendInitializationResult, sendInitializationError] = await waitClientRequest(clientConnection.onInitialize)
+    const languageClient = typeof languageClientOrResolver === 'function' ? await languageClientOrResolver(initParams) : languageClientOrResolver
+    try {
+      await languageClient.start(initParams)
+    } catch (error) {
+      sendInitializationError(new ResponseError<InitializeError>(ErrorCodes.InternalError, 'Unable to start the language server', { retry: true }))
+      throw error
+    }
+
+    // Only the host initialize params or the ones of the first client reach the server
+    const differences = compareInitializeParams(languageClient.getInitializeParams()!, initParams, options.initializeParamsPolicy)
+    for (const difference of differences) {
+      switch (difference.severity) {
+        case InitializeParamsDifferenceSeverity.Adaptable:
+          options.logger?.warn(`The client ${difference.param} are different from the server ones, they will be adapted`, { difference })
+          break
+        case InitializeParamsDifferenceSeverity.Ignorable:
+          options.logger?.debug(`The client ${difference.param} are different from the server ones, they are ignored`, { difference })
+          break
+      }
+    }
+    const fatalDifferences = differences.filter(difference => difference.severity === InitializeParamsDifferenceSeverity.Fatal)
+    if (fatalDifferences.length > 0) {
+      const message = `The client is not compatible with the language server, its ${fatalDifferences.map(difference => difference.param).join(', ')} are different`
+      options.logger?.warn(message, { differences: fatalDifferences })
+      sendInitializationError(new ResponseError<InitializeError>(ErrorCodes.InvalidParams, message, { retry: false }))
+      return EndCause.Incompatible
+    }
 
     // disposed can actually be set to false asynchronously
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -126,16 +214,42 @@ export async function bindLanguageClient (
       throw new ConnectionClosedError()
     }
 
+    // The documents closed by the client may still be open on the server, by another client
+    const positionEncodingConverter = new PositionEncodingConverter(
+      negotiatePositionEncoding(initParams.capabilities),
+      uri => documents.get(uri) ?? languageClient.getServerDocument(uri)
+    )
+
+    // The client can't send any document before being initialized, so they are only listened once the client encoding is known
+    const onDidChangeContentEmitter = new Emitter<ClientDocumentChange>()
+    const documents: TextDocuments<TextDocument> = new TextDocuments({
+      create: TextDocument.create,
+      update: (document, clientChanges, version) => {
+        const changes = positionEncodingConverter.changesFromClient(document, clientChanges)
+        // Keep the changes sent by the client, so they can be forwarded to the server instead of computing a diff
+        onDidChangeContentEmitter.fire({ uri: document.uri, contentChanges: changes })
+        return TextDocument.update(document, changes, version)
+      }
+    })
+    disposableCollection.push(documents.listen(clientConnection))
+
     disposableCollection.push(bindClientToServer(
       documents,
+      onDidChangeContentEmitter.event,
       languageClient,
-      serverConnection,
       clientMessageConnection,
+      initParams.capabilities,
+      positionEncodingConverter,
       options
     ))
 
     sendInitializationResult({
-      capabilities: transformServerCapabilities(languageClient.getServerCapabilities().getCapabilities(), languageClient.options.disableSaveNotifications ?? false),
+      capabilities: transformServerCapabilities(
+        languageClient.getServerCapabilities().getCapabilities(),
+        languageClient.options.disableSaveNotifications ?? false,
+        languageClient.getServerCapabilities().getRegistrationRequests(),
+        initParams.capabilities
+      ),
       serverInfo: {
         name: options.serverName ?? 'Mutualized server'
       }
@@ -149,7 +263,9 @@ export async function bindLanguageClient (
       clientConnection.onNotification(InitializedNotification.type, resolve)
     }))
 
-    disposableCollection.push(synchronizeLanguageServerCapabilities(languageClient.getServerCapabilities(), clientMessageConnection, options.logger))
+    disposableCollection.push(synchronizeLanguageServerCapabilities(languageClient.getServerCapabilities(), clientMessageConnection, initParams.capabilities, options.logger))
+    disposableCollection.push(forwardServerMessages(languageClient, clientMessageConnection, options))
+    disposableCollection.push(synchronizeClientConfiguration(documents, languageClient, clientMessageConnection, initParams.capabilities, options))
 
     const endCause = await Promise.race([
       connectionClosePromise.then(() => EndCause.Client),
@@ -161,24 +277,98 @@ export async function bindLanguageClient (
   }
 }
 
+/**
+ * Replays the last server log messages then forwards the new messages to the client
+ */
+function forwardServerMessages (
+  languageClient: LanguageClient,
+  clientConnection: rpc.MessageConnection,
+  options: LanguageClientBindingOptions
+): Disposable {
+  const disposableCollection = new DisposableCollection()
+  const bindContext: BindContext = options.bindContext ?? (fn => fn)
+  const sendLogMessage = (params: LogMessageParams) => {
+    clientConnection.sendNotification(LogMessageNotification.type, params).catch(error => {
+      options.logger?.error('Unable to send notification to client', error)
+    })
+  }
+
+  const replayedLogMessages = options.replayedLogMessages ?? 20
+  if (replayedLogMessages > 0) {
+    for (const params of languageClient.getLogMessages({ limit: replayedLogMessages })) {
+      sendLogMessage(params)
+    }
+  }
+  disposableCollection.push(languageClient.onLogMessage(bindContext(sendLogMessage)))
+  disposableCollection.push(languageClient.onShowMessage(bindContext(params => {
+    clientConnection.sendNotification(ShowMessageNotification.type, params).catch(error => {
+      options.logger?.error('Unable to send notification to client', error)
+    })
+  })))
+  return disposableCollection
+}
+
+/**
+ * Collects the settings of the client, either pushed by the client or pulled if it supports the configuration request
+ */
+function synchronizeClientConfiguration (
+  documents: TextDocuments<TextDocument>,
+  languageClient: LanguageClient,
+  clientConnection: rpc.MessageConnection,
+  clientCapabilities: ClientCapabilities,
+  options: LanguageClientBindingOptions
+): Disposable {
+  const bindContext: BindContext = options.bindContext ?? (fn => fn)
+  const clientSections = languageClient.options.configurationMergePolicy?.clientSections ?? []
+
+  async function pullClientConfiguration () {
+    if (clientSections.length === 0 || !(clientCapabilities.workspace?.configuration ?? false)) {
+      return
+    }
+    const values = await clientConnection.sendRequest(ConfigurationRequest.type, {
+      items: clientSections.map(section => ({ section }))
+    })
+    const settings = clientSections.reduce((config, section, index) => {
+      if (values[index] != null) {
+        setValueBySection(config, section, values[index])
+      }
+      return config
+    }, {})
+    languageClient.setClientSettings(documents, settings)
+  }
+
+  pullClientConfiguration().catch(error => {
+    options.logger?.error('Unable to get configuration from client', { error })
+  })
+
+  return clientConnection.onNotification(DidChangeConfigurationNotification.type, bindContext(({ settings }) => {
+    if (settings != null) {
+      languageClient.setClientSettings(documents, settings)
+    } else {
+      pullClientConfiguration().catch(error => {
+        options.logger?.error('Unable to get configuration from client', { error })
+      })
+    }
+  }))
+}
+
 function bindClientToServer (
   documents: TextDocuments<TextDocument>,
+  changeEvent: Event<ClientDocumentChange>,
   languageClient: LanguageClient,
-  serverConnection: rpc.MessageConnection,
   clientConnection: rpc.MessageConnection,
+  clientCapabilities: ClientCapabilities,
+  positionEncodingConverter: PositionEncodingConverter,
   options: LanguageClientBindingOptions
 ): Disposable {
   const disposableCollection = new DisposableCollection()
   try {
-    const onRequestEmitter = new Emitter<void>()
-    disposableCollection.push(languageClient.synchronize(documents, onRequestEmitter.event))
+    const onRequestEmitter = new Emitter<DocumentUri[] | undefined>()
+    disposableCollection.push(languageClient.synchronize(documents, onRequestEmitter.event, changeEvent))
     documents.onDidOpen((e) => {
-      const existingDiagnostics = languageClient.getLastDiagnostics(e.document.uri)
+      const existingDiagnostics = languageClient.getLastPublishedDiagnostics(e.document.uri)
       if (existingDiagnostics != null) {
-        clientConnection.sendNotification(PublishDiagnosticsNotification.type, {
-          uri: e.document.uri,
-          diagnostics: existingDiagnostics
-        }).catch(error => {
+        clientConnection.sendNotification(PublishDiagnosticsNotification.type, positionEncodingConverter.toClient(languageClient.adaptDiagnostics(documents, existingDiagnostics))).catch(error => {
           options.logger?.error('Unable to send notification to client', error)
         })
       }
@@ -188,11 +378,17 @@ function bindClientToServer (
       return documents.get(uri) != null
     }
 
+    // The last semantic tokens and diagnostic reports sent to this client, to compute its incremental results
+    const resultTracker = new ClientResultTracker()
+    disposableCollection.push(resultTracker)
+    disposableCollection.push(documents.onDidClose(e => resultTracker.deleteDocument(e.document.uri)))
+
     const bindContext: BindContext = options.bindContext ?? (fn => fn)
 
     disposableCollection.push(languageClient.onDiagnostics(bindContext((diag) => {
       if (isDocumentOpen(diag.uri)) {
-        clientConnection.sendNotification(PublishDiagnosticsNotification.type, diag).catch(error => {
+        // The diagnostics were computed on the server document which may be late compared to the client one
+        clientConnection.sendNotification(PublishDiagnosticsNotification.type, positionEncodingConverter.toClient(languageClient.adaptDiagnostics(documents, diag))).catch(error => {
           options.logger?.error('Unable to send notification to client', error)
         })
       }
@@ -224,56 +420,270 @@ function bindClientToServer (
       })
     })))
 
+    disposableCollection.push(languageClient.onShowMessageRequest(bindContext((params, token) => {
+      return clientConnection.sendRequest(ShowMessageRequest.type, params, token)
+    }), documents))
+
     disposableCollection.push(languageClient.onShowDocument(bindContext(params => {
-      return clientConnection.sendRequest(ShowDocumentRequest.type, params)
-    })))
+      return clientConnection.sendRequest(ShowDocumentRequest.type, positionEncodingConverter.toClient(params))
+    }), documents))
 
     disposableCollection.push(languageClient.onWorkspaceApplyEdit(bindContext(params => {
+      // Client & server document versions are not the same, the edit is translated to the client versions
+      // The edits with resource operations are not split between the clients, this one gets all of it
+      const edit = languageClient.adaptWorkspaceEdit(documents, params.edit, getWorkspaceEditDocumentUris(params.edit) == null)
+      if (edit == null) {
+        return {
+          applied: false,
+          failureReason: 'The document was modified by the client'
+        }
+      }
+      const { changes, documentChanges } = edit
+      if (Object.keys(changes ?? {}).length === 0 && (documentChanges ?? []).length === 0) {
+        // The client doesn't have any of the edited documents open
+        return null
+      }
+      let clientEdit: WorkspaceEdit
+      try {
+        // The edit is shaped for the first client, this one may not support the document changes
+        clientEdit = adaptWorkspaceEditToClient(edit, clientCapabilities)
+      } catch (error) {
+        return {
+          applied: false,
+          failureReason: (error as Error).message
+        }
+      }
       return clientConnection.sendRequest(ApplyWorkspaceEditRequest.type, {
         label: params.label,
-        edit: {
-          changes: params.edit.changes != null
-            ? Object.fromEntries(
-              Object.entries(params.edit.changes).filter(([uri]) => isDocumentOpen(uri))
-            )
-            : undefined,
-          documentChanges: params.edit.documentChanges
-            ?.filter(TextDocumentEdit.is)
-            .filter(({ textDocument }) => isDocumentOpen(textDocument.uri))
-            // Client & server document versions are not necessarily the same and some edit operations can be ignored on the client side because of that.
-            // For now we just send back the client version but it's not 100% safe.
-            // A better solution would be to keep track of each client document version associated to a server version.
-            .map(({ textDocument, ...documentEdit }) => ({
-              ...documentEdit,
-              textDocument: {
-                ...textDocument,
-                version: documents.get(textDocument.uri)!.version
-              }
-            }))
+        edit: positionEncodingConverter.toClient(clientEdit)
+      })
+    }), documents))
+
+    // Client work done tokens associated to the unique token sent to the server
+    const requestProgressTokens = new Map<ProgressToken, ProgressToken>()
+    if (clientCapabilities.window?.workDoneProgress ?? false) {
+      disposableCollection.push(synchronizeWorkDoneProgress(languageClient.getProgressDispatcher(), clientConnection, requestProgressTokens, options.logger))
+    }
+
+    // The pending requests of the client are cancelled when it disconnects, so the server requests shared with other clients can be released
+    const disconnectionTokenSource = new CancellationTokenSource()
+    disposableCollection.push(Disposable.create(() => {
+      disconnectionTokenSource.cancel()
+      disconnectionTokenSource.dispose()
+    }))
+
+    /**
+     * The dynamic registrations the client doesn't support were folded in its static capabilities, the server may have unregistered them since
+     */
+    function isRequestAvailable (method: string, params: unknown) {
+      if (!isFoldedRequest(clientCapabilities, method)) {
+        return true
+      }
+      const uri = getRequestDocumentUris(params)?.[0]
+      return languageClient.getServerCapabilities().isRequestAvailable(method, uri != null ? documents.get(uri) : undefined)
+    }
+
+    async function forwardRequest (request: RequestType<unknown, unknown, unknown>, clientParams: unknown, clientToken: CancellationToken) {
+      // Send the pending changes of every client on the request documents first
+      onRequestEmitter.fire(getRequestDocumentUris(clientParams))
+      // The changes of large documents may be computed asynchronously
+      await languageClient.waitForDocumentUpdates()
+      // The resolve requests carry the document of their item, the positions of the result belong to it
+      const { params, uri: itemUri } = positionEncodingConverter.requestFromClient(request.method, clientParams)
+      const resultUri = itemUri ?? getResultDocumentUri(params)
+      // The server may be restarting, wait for it to be ready
+      const serverConnection = await languageClient.getConnection()
+      if (!isRequestAvailable(request.method, params)) {
+        throw new ResponseError(LSPErrorCodes.RequestFailed, 'The feature is not available anymore')
+      }
+      const cancellation = combineCancellationTokens(clientToken, disconnectionTokenSource.token)
+      const { serverRequest, serverParams } = getServerRequest(request, params)
+      const adaptPartialResult = (partialResult: unknown) => adaptResult(request, params, partialResult, resultUri)
+      try {
+        if (originatingRequestMethods.has(request.method)) {
+          // The server may send requests (applyEdit...) related to this request, they should be sent to this client first
+          const originatingRequest = languageClient.trackOriginatingRequest(documents)
+          try {
+            return adaptResult(request, params, await sendRequestToServer(serverConnection, serverRequest, serverParams, cancellation.token, adaptPartialResult), resultUri)
+          } finally {
+            originatingRequest.dispose()
+          }
         }
+        return adaptResult(request, params, await sendRequestToServer(serverConnection, serverRequest, serverParams, cancellation.token, adaptPartialResult), resultUri)
+      } finally {
+        cancellation.dispose()
+      }
+    }
+
+    /**
+     * The server result ids may be replaced by the requests of other clients, so only full results are requested from the server
+     * The incremental results are then computed for each client by the result tracker
+     */
+    function getServerRequest (request: RequestType<unknown, unknown, unknown>, params: unknown): { serverRequest: RequestType<unknown, unknown, unknown>, serverParams: unknown } {
+      switch (request.method) {
+        case SemanticTokensRequest.method: {
+          // The partial results would not be tracked
+          const { partialResultToken, ...serverParams } = params as SemanticTokensParams
+          return { serverRequest: request, serverParams }
+        }
+        case SemanticTokensDeltaRequest.method: {
+          const { partialResultToken, previousResultId, ...serverParams } = params as SemanticTokensDeltaParams
+          return { serverRequest: SemanticTokensRequest.type as RequestType<unknown, unknown, unknown>, serverParams }
+        }
+        case DocumentDiagnosticRequest.method: {
+          const { partialResultToken, previousResultId, ...serverParams } = params as DocumentDiagnosticParams
+          return { serverRequest: request, serverParams }
+        }
+        case WorkspaceDiagnosticRequest.method: {
+          const workspaceParams = params as WorkspaceDiagnosticParams
+          return {
+            serverRequest: request,
+            serverParams: {
+              ...workspaceParams,
+              previousResultIds: languageClient.getWorkspaceDiagnosticBaseline().getPreviousResultIds(workspaceParams.identifier)
+            }
+          }
+        }
+        default:
+          return { serverRequest: request, serverParams: params }
+      }
+    }
+
+    /**
+     * The results are shaped for the first client, they are adapted to the capabilities of this client
+     */
+    function adaptResult (request: RequestType<unknown, unknown, unknown>, params: unknown, result: unknown, resultUri: DocumentUri | undefined): unknown {
+      const adaptedResult = adaptResponseToClient(request.method, params, adaptServerResult(request, params, result), clientCapabilities, options.responseAdapters)
+      return positionEncodingConverter.resultToClient(request.method, adaptedResult, resultUri)
+    }
+
+    /**
+     * @returns The document the positions of the result belong to when they are not next to an uri
+     */
+    function getResultDocumentUri (params: unknown): DocumentUri | undefined {
+      // The call hierarchy requests are about an item
+      return getRequestDocumentUris(params)?.[0] ?? (params as { item?: { uri?: DocumentUri } } | undefined)?.item?.uri
+    }
+
+    /**
+     * The workspace edits contained in the results are computed on the server documents, they are translated for the client
+     * The result ids are replaced by the ones of the client result tracker
+     */
+    function adaptServerResult (request: RequestType<unknown, unknown, unknown>, params: unknown, result: unknown): unknown {
+      const adaptSemanticTokens = (uri: DocumentUri, tokens: SemanticTokens): SemanticTokens => ({
+        ...tokens,
+        data: positionEncodingConverter.semanticTokensDataToClient(tokens.data, uri)
       })
-    })))
+      const adaptCodeAction = (codeAction: CodeAction): CodeAction | undefined => {
+        if (codeAction.edit == null) {
+          return codeAction
+        }
+        const edit = languageClient.adaptWorkspaceEdit(documents, codeAction.edit, true)
+        return edit != null ? { ...codeAction, edit } : undefined
+      }
+      if (result == null) {
+        return result
+      }
+      switch (request.method) {
+        case CodeActionRequest.method:
+          // Drop the actions which can't be applied on the client document anymore
+          return (result as (Command | CodeAction)[]).flatMap<Command | CodeAction>(action => {
+            return CodeAction.is(action) ? adaptCodeAction(action) ?? [] : [action]
+          })
+        case CodeActionResolveRequest.method: {
+          const codeAction = adaptCodeAction(result as CodeAction)
+          if (codeAction == null) {
+            throw new ResponseError(LSPErrorCodes.ContentModified, 'The document was modified by the client')
+          }
+          return codeAction
+        }
+        case RenameRequest.method: {
+          const edit = languageClient.adaptWorkspaceEdit(documents, result as WorkspaceEdit, true)
+          if (edit == null) {
+            throw new ResponseError(LSPErrorCodes.ContentModified, 'The document was modified by the client')
+          }
+          return edit
+        }
+        case SemanticTokensRequest.method: {
+          const { textDocument } = params as SemanticTokensParams
+          return resultTracker.adaptSemanticTokens(textDocument.uri, adaptSemanticTokens(textDocument.uri, result as SemanticTokens))
+        }
+        case SemanticTokensDeltaRequest.method: {
+          const { textDocument, previousResultId } = params as SemanticTokensDeltaParams
+          return resultTracker.adaptSemanticTokensDelta(textDocument.uri, previousResultId, adaptSemanticTokens(textDocument.uri, result as SemanticTokens))
+        }
+        case SemanticTokensRangeRequest.method:
+          return adaptSemanticTokens((params as SemanticTokensRangeParams).textDocument.uri, result as SemanticTokens)
+        case DocumentDiagnosticRequest.method:
+          return resultTracker.adaptDocumentDiagnosticReport(params as DocumentDiagnosticParams, result as DocumentDiagnosticReport)
+        case WorkspaceDiagnosticRequest.method: {
+          const workspaceParams = params as WorkspaceDiagnosticParams
+          const report = languageClient.getWorkspaceDiagnosticBaseline().resolve(workspaceParams.identifier, result as WorkspaceDiagnosticReport | WorkspaceDiagnosticReportPartialResult)
+          return resultTracker.adaptWorkspaceDiagnosticReport(workspaceParams, report)
+        }
+        default:
+          return result
+      }
+    }
+
+    async function sendRequestToServer (serverConnection: rpc.MessageConnection, request: RequestType<unknown, unknown, unknown>, params: unknown, token: CancellationToken, adaptPartialResult: (partialResult: unknown) => unknown) {
+      const workDoneToken = getWorkDoneToken(params)
+      const partialResultToken = getPartialResultToken(params)
+      if (workDoneToken == null && partialResultToken == null) {
+        return serverConnection.sendRequest(request, params, token)
+      }
+
+      // Different clients can use the same tokens, so unique tokens are sent to the server
+      const progressDispatcher = languageClient.getProgressDispatcher()
+      const progressRegistrations = new DisposableCollection()
+      const serverParams = { ...(params as object) }
+      if (workDoneToken != null) {
+        const progressRegistration = progressDispatcher.registerProgressHandler(value => {
+          if (isWorkDoneProgressValue(value)) {
+            clientConnection.sendProgress(WorkDoneProgress.type, workDoneToken, value).catch(error => {
+              options.logger?.error('Unable to send progress to client', { error })
+            })
+          }
+        })
+        progressRegistrations.push(progressRegistration)
+        requestProgressTokens.set(workDoneToken, progressRegistration.token)
+        progressRegistrations.push(Disposable.create(() => requestProgressTokens.delete(workDoneToken)))
+        Object.assign(serverParams, { workDoneToken: progressRegistration.token })
+      }
+      if (partialResultToken != null) {
+        const progressRegistration = progressDispatcher.registerProgressHandler(value => {
+          clientConnection.sendProgress(partialResultProgressType, partialResultToken, adaptPartialResult(value)).catch(error => {
+            options.logger?.error('Unable to send partial result to client', { error })
+          })
+        })
+        progressRegistrations.push(progressRegistration)
+        Object.assign(serverParams, { partialResultToken: progressRegistration.token })
+      }
+      try {
+        return await serverConnection.sendRequest(request, serverParams, token)
+      } finally {
+        progressRegistrations.dispose()
+      }
+    }
 
     for (const request of forwardedClientRequests) {
       disposableCollection.push(clientConnection.onRequest(request, bindContext(async (params, token) => {
-        onRequestEmitter.fire()
-        return serverConnection.sendRequest(request, params, token)
+        return forwardRequest(request, params, token)
       })))
     }
 
-    disposableCollection.push(clientConnection.onRequest(bindContext((method, params, token) => {
+    disposableCollection.push(clientConnection.onRequest(bindContext(async (method, params, token) => {
+      const serverConnection = await languageClient.getConnection()
       // Java JDT:LS defines a lot of `java/XXX` requests, let's forward them as well
       if (method.startsWith('java/')) {
-        onRequestEmitter.fire()
-        return serverConnection.sendRequest(method, params, token)
+        onRequestEmitter.fire(getRequestDocumentUris(params))
+        await languageClient.waitForDocumentUpdates()
+        const result: unknown = await serverConnection.sendRequest(method, positionEncodingConverter.fromClient(params), token)
+        return positionEncodingConverter.toClient(result, getResultDocumentUri(params))
       }
       return options.unknownClientRequestHandler?.(serverConnection, method, params, token)
     })))
 
-    disposableCollection.push(clientConnection.onNotification(DidChangeConfigurationNotification.type, bindContext(() => {
-      // There is multiple clients on the server, what to do with the configuration?
-    })))
-
     return disposableCollection
   } catch (err) {
     disposableCollection.dispose()
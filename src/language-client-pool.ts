@@ -0,0 +1,140 @@
+import * as rpc from 'vscode-jsonrpc'
+import { InitializeParams } from 'vscode-languageserver-protocol'
+import { Disposable } from 'vscode-jsonrpc'
+import objectHash from 'object-hash'
+import ms from 'ms'
+import winston from 'winston'
+import { LanguageClient } from './language-client'
+import { bindLanguageClient, EndCause, LanguageClientBindingOptions } from './language-client-mutualization'
+import { ComparedInitializeParam, getInitializeParam } from './initialize-params'
+
+export interface LanguageClientPoolOptions {
+  /**
+   * Creates the language client shared by the clients having the same key, it's started with the initialize params of the first one
+   */
+  createLanguageClient: (initializeParams: InitializeParams, key: string) => LanguageClient
+  /**
+   * The initialize params identifying a server, the workspace, the initialization options and the locale by default
+   */
+  keyParams?: ComparedInitializeParam[]
+  /**
+   * Duration a server is kept alive once its last client left, 5 minutes by default
+   */
+  idleTimeout?: number
+  logger?: winston.Logger
+}
+
+const defaultKeyParams: ComparedInitializeParam[] = ['rootUri', 'rootPath', 'workspaceFolders', 'initializationOptions', 'locale']
+
+interface PooledLanguageClient {
+  languageClient: LanguageClient
+  references: number
+  idleTimeout?: ReturnType<typeof setTimeout>
+  disposable: Disposable
+}
+
+/**
+ * Binds each client to a language client shared with the clients having the same initialize params
+ * The language clients are created lazily and disposed once they are idle
+ */
+export class LanguageClientPool implements Disposable {
+  private languageClients = new Map<string, PooledLanguageClient>()
+
+  constructor (private options: LanguageClientPoolOptions) {
+  }
+
+  public getKey (initializeParams: InitializeParams): string {
+    const keyParams = this.options.keyParams ?? defaultKeyParams
+    return objectHash(keyParams.map(param => getInitializeParam(initializeParams, param) ?? null))
+  }
+
+  /**
+   * @returns The language client of the initialize params, created if needed, it should be released once not used anymore
+   */
+  public acquire (initializeParams: InitializeParams): LanguageClient {
+    const key = this.getKey(initializeParams)
+    let pooledLanguageClient = this.languageClients.get(key)
+    if (pooledLanguageClient == null || pooledLanguageClient.languageClient.isDisposed()) {
+      pooledLanguageClient = this.createLanguageClient(initializeParams, key)
+    }
+    if (pooledLanguageClient.idleTimeout != null) {
+      clearTimeout(pooledLanguageClient.idleTimeout)
+      pooledLanguageClient.idleTimeout = undefined
+    }
+    pooledLanguageClient.references++
+    return pooledLanguageClient.languageClient
+  }
+
+  public release (languageClient: LanguageClient): void {
+    const [key, pooledLanguageClient] = Array.from(this.languageClients.entries()).find(([, pooled]) => pooled.languageClient === languageClient) ?? []
+    if (key == null || pooledLanguageClient == null || pooledLanguageClient.references === 0) {
+      return
+    }
+    pooledLanguageClient.references--
+    if (pooledLanguageClient.references === 0) {
+      pooledLanguageClient.idleTimeout = setTimeout(() => {
+        this.options.logger?.info('Disposing idle language client', { key })
+        this.disposeLanguageClient(key, pooledLanguageClient)
+      }, this.options.idleTimeout ?? ms('5 minutes'))
+      // An idle server shouldn't keep the process alive
+      pooledLanguageClient.idleTimeout.unref()
+    }
+  }
+
+  /**
+   * Binds the client to the language client matching its initialize params for the whole life of the connection
+   */
+  public async bind (clientMessageConnection: rpc.MessageConnection, options?: LanguageClientBindingOptions): Promise<EndCause> {
+    let languageClient: LanguageClient | undefined
+    try {
+      return await bindLanguageClient(initializeParams => {
+        languageClient = this.acquire(initializeParams)
+        return languageClient
+      }, clientMessageConnection, options)
+    } finally {
+      if (languageClient != null) {
+        this.release(languageClient)
+      }
+    }
+  }
+
+  public get size (): number {
+    return this.languageClients.size
+  }
+
+  private createLanguageClient (initializeParams: InitializeParams, key: string): PooledLanguageClient {
+    this.options.logger?.info('Creating language client', { key })
+    const languageClient = this.options.createLanguageClient(initializeParams, key)
+    const pooledLanguageClient: PooledLanguageClient = {
+      languageClient,
+      references: 0,
+      // The server died or failed to start, the next clients get a new one
+      disposable: languageClient.onDispose(() => {
+        if (this.languageClients.get(key) === pooledLanguageClient) {
+          this.languageClients.delete(key)
+        }
+      })
+    }
+    this.languageClients.set(key, pooledLanguageClient)
+    return pooledLanguageClient
+  }
+
+  private disposeLanguageClient (key: string, pooledLanguageClient: PooledLanguageClient): void {
+    if (pooledLanguageClient.idleTimeout != null) {
+      clearTimeout(pooledLanguageClient.idleTimeout)
+    }
+    pooledLanguageClient.disposable.dispose()
+    if (this.languageClients.get(key) === pooledLanguageClient) {
+      this.languageClients.delete(key)
+    }
+    pooledLanguageClient.languageClient.dispose().catch(error => {
+      this.options.logger?.error('Unable to dispose the language client', { error })
+    })
+  }
+
+  public dispose (): void {
+    for (const [key, pooledLanguageClient] of Array.from(this.languageClients.entries())) {
+      this.disposeLanguageClient(key, pooledLanguageClient)
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import * as rpc from 'vscode-jsonrpc'
+import { InitializeParams } from 'vscode-languageserver-protocol'
+import { Disposable } from 'vscode-jsonrpc'
+import { DocumentUri } from 'vscode-languageserver-textdocument'
+import winston from 'winston'
+import { createHash } from 'crypto'
+import { LanguageClient } from './language-client'
+import { bindLanguageClient, EndCause, LanguageClientBindingOptions } from './language-client-mutualization'
+
+export enum ShardingStrategy {
+  /**
+   * The shard with the fewest open documents
+   */
+  LeastDocuments = 'least-documents',
+  /**
+   * The shard with the fewest requests waiting for the server
+   */
+  LeastPendingRequests = 'least-pending-requests',
+  /**
+   * The shard is chosen from a hash of the client uri, so the clients synchronized on the same documents share the same server
+   */
+  UriAffinity = 'uri-affinity'
+}
+
+export interface LanguageClientShardsOptions {
+  /**
+   * Number of identical servers
+   */
+  shards: number
+  /**
+   * Creates the language client of a shard, called again when the shard is recycled
+   */
+  createLanguageClient: (index: number) => LanguageClient
+  /**
+   * How the clients are assigned to the shards, `LeastDocuments` by default
+   */
+  strategy?: ShardingStrategy
+  /**
+   * The uri used by the `UriAffinity` strategy, the root uri (or the first workspace folder) by default
+   */
+  getAffinityUri?: (initializeParams: InitializeParams) => DocumentUri | null | undefined
+  logger?: winston.Logger
+}
+
+interface Shard {
+  index: number
+  languageClient: LanguageClient
+  clients: number
+}
+
+function getDefaultAffinityUri (initializeParams: InitializeParams): DocumentUri | null | undefined {
+  return initializeParams.rootUri ?? initializeParams.workspaceFolders?.[0]?.uri
+}
+
+function hashUri (uri: DocumentUri): number {
+  return createHash('sha256').update(uri).digest().readUInt32BE(0)
+}
+
+/**
+ * Spreads the clients over several identical language servers, a client stays on its shard for the whole life of its connection
+ * A shard whose language client is disposed is recycled with a new language client, which gets the next clients as it's empty
+ */
+export class LanguageClientShards implements Disposable {
+  private shards: Shard[]
+  private disposed = false
+
+  constructor (private options: LanguageClientShardsOptions) {
+    if (options.shards < 1) {
+      throw new Error('At least one shard is required')
+    }
+    this.shards = Array.from({ length: options.shards }, (_, index) => ({
+      index,
+      languageClient: options.createLanguageClient(index),
+      clients: 0
+    }))
+  }
+
+  /**
+   * @returns The shard the client with the given initialize params is assigned to
+   */
+  public selectShard (initializeParams: InitializeParams): number {
+    const strategy = this.options.strategy ?? ShardingStrategy.LeastDocuments
+    if (strategy === ShardingStrategy.UriAffinity) {
+      const uri = (this.options.getAffinityUri ?? getDefaultAffinityUri)(initializeParams)
+      if (uri != null) {
+        return hashUri(uri) % this.shards.length
+      }
+    }
+    const getLoad = (shard: Shard): number => strategy === ShardingStrategy.LeastPendingRequests
+      ? shard.languageClient.getPendingRequestCount()
+      : shard.languageClient.getDocumentCount()
+    const [selectedShard] = this.shards
+      .map(shard => this.getActiveShard(shard.index))
+      .sort((a, b) => {
+        const loadDifference = getLoad(a) - getLoad(b)
+        return loadDifference !== 0 ? loadDifference : a.clients !== b.clients ? a.clients - b.clients : a.index - b.index
+      })
+    return selectedShard!.index
+  }
+
+  /**
+   * Binds the client to a shard for the whole life of the connection
+   */
+  public async bind (clientMessageConnection: rpc.MessageConnection, options?: LanguageClientBindingOptions): Promise<EndCause> {
+    let shard: Shard | undefined
+    try {
+      return await bindLanguageClient(initializeParams => {
+        if (this.disposed) {
+          throw new Error('The language client shards are disposed')
+        }
+        shard = this.getActiveShard(this.selectShard(initializeParams))
+        shard.clients++
+        this.options.logger?.debug(`Client assigned to the shard ${shard.index}`, { clients: shard.clients })
+        return shard.languageClient
+      }, clientMessageConnection, options)
+    } finally {
+      if (shard != null) {
+        shard.clients--
+      }
+    }
+  }
+
+  /**
+   * Disposes the language client of the shard and replaces it with a new one, the clients bound to it are disconnected
+   */
+  public async recycle (index: number): Promise<void> {
+    const shard = this.shards[index]
+    if (shard == null) {
+      throw new Error(`Unknown shard ${index}`)
+    }
+    const languageClient = shard.languageClient
+    this.shards[index] = this.createShard(index)
+    await languageClient.dispose()
+  }
+
+  public getLanguageClients (): LanguageClient[] {
+    return this.shards.map(shard => shard.languageClient)
+  }
+
+  /**
+   * @returns The shard, with a new language client if the previous one was disposed
+   */
+  private getActiveShard (index: number): Shard {
+    let shard = this.shards[index]!
+    if (shard.languageClient.isDisposed()) {
+      shard = this.createShard(index)
+      this.shards[index] = shard
+    }
+    return shard
+  }
+
+  private createShard (index: number): Shard {
+    this.options.logger?.info(`Recycling the shard ${index}`)
+    return {
+      index,
+      languageClient: this.options.createLanguageClient(index),
+      clients: 0
+    }
+  }
+
+  public dispose (): void {
+    this.disposed = true
+    for (const shard of this.shards) {
+      shard.languageClient.dispose().catch(error => {
+        this.options.logger?.error('Unable to dispose the language client', { error })
+      })
+    }
+  }
+}
@@ -5,7 +5,9 @@ import {
   LogMessageNotification, WorkspaceFoldersRequest, WorkDoneProgressCreateRequest, ShutdownRequest, ShowMessageNotification,
   ShowMessageRequest, DidOpenTextDocumentNotification,
   DidCloseTextDocumentNotification, TextDocumentSyncKind, DidChangeTextDocumentNotification, ExecuteCommandRequest,
-  LogMessageParams, ApplyWorkspaceEditParams, Diagnostic, TextDocumentItem, DidSaveTextDocumentNotification, WillSaveTextDocumentWaitUntilRequest, TextDocumentIdentifier, TextEdit, TextDocumentRegistrationOptions, DidChangeWatchedFilesNotification, FileSystemWatcher, FileEvent, DiagnosticRefreshRequest, InlayHintRefreshRequest, InlineValueRefreshRequest, ApplyWorkspaceEditResult, ShowDocumentRequest, ShowDocumentParams, ShowDocumentResult
+  LogMessageParams, ApplyWorkspaceEditParams, Diagnostic, TextDocumentItem, DidSaveTextDocumentNotification, WillSaveTextDocumentWaitUntilRequest, TextDocumentIdentifier, TextEdit, TextDocumentRegistrationOptions, DidChangeWatchedFilesNotification, FileSystemWatcher, FileEvent, DiagnosticRefreshRequest, InlayHintRefreshRequest, InlineValueRefreshRequest, ApplyWorkspaceEditResult, ShowDocumentRequest, ShowDocumentParams, ShowDocumentResult, ExitNotification, ServerCapabilities, WorkDoneProgressCancelNotification,
+  ShowMessageParams, ShowMessageRequestParams, MessageActionItem, TelemetryEventNotification, LSPAny, MessageType,
+  WorkspaceEdit, TextDocumentEdit, TextDocumentContentChangeEvent
 } from 'vscode-languageserver-protocol'
 import {
   ApplyWorkspaceEditRequest,
@@ -20,12 +22,25 @@ import setValueBySection from 'set-value'
 import { DocumentUri, TextDocument } from 'vscode-languageserver-textdocument'
 import winston from 'winston'
 import debounce from 'debounce'
+import delay from 'delay'
+import ms from 'ms'
+import objectHash from 'object-hash'
 import { transformClientCapabilities, WatchableServerCapabilities } from './capabilities'
-import { lspDiff, matchDocument } from './tools/lsp'
-import { ConnectionRequestCache, createMemoizedConnection } from './tools/cache'
-import { allVoidMerger, MultiRequestHandler, RequestHandlerRegistration, singleHandlerMerger } from './tools/request-handler'
-import { runWithTimeout } from './tools/node'
+import { composeContentChanges, getWorkspaceEditDocumentUris, matchDocument, rebaseRanges, restrictWorkspaceEdit } from './tools/lsp'
+import { lspDiff } from './tools/diff'
+import { DiffWorkerPool, DiffWorkerPoolOptions } from './tools/diff-worker-pool'
+import { AsyncConnectionRequestCache, ConnectionRequestCache, createMemoizingInterceptor, createSharedMemoizingInterceptor, RequestCacheIndex } from './tools/cache'
+import { interceptRequests, RequestInterceptor } from './tools/request-interceptor'
+import { allVoidMerger, createRequestDispatchStrategy, mergeStrategy, MultiRequestHandler, RequestHandlerRegistration, ServerRequestStrategy } from './tools/request-handler'
 import { DisposableCollection } from './tools/disposable'
+import { ProgressDispatcher } from './progress'
+import { ConfigurationMergePolicy, ConfigurationMerger } from './configuration'
+import { DocumentChangeHistory, DocumentVersionLedger } from './document-versions'
+import { WorkspaceDiagnosticBaseline } from './result-tracking'
+import { serverPositionEncoding } from './position-encoding'
+import { timeout, TimeoutError } from './tools/promise'
+import { RingBuffer } from './tools/ring-buffer'
+import pDefer from './tools/p-defer'
 
 export enum LanguageClientDisposeReason {
   Remote,
@@ -33,21 +48,155 @@ export enum LanguageClientDisposeReason {
 }
 
 export type BindContext = <P extends unknown[], R> (fn: (...args: P) => R) => (...args: P) => R
+
+/**
+ * Creates a new connection to a fresh language server instance.
+ * Used instead of a single connection to allow the LanguageClient to restart the server
+ */
+export type LanguageServerConnectionFactory = () => rpc.MessageConnection | Promise<rpc.MessageConnection>
+
+export interface LanguageServerRestartPolicy {
+  /**
+   * Maximum number of consecutive restarts before giving up and disposing the LanguageClient
+   */
+  maxRestarts?: number
+  /**
+   * Delay before the first restart, doubled on every consecutive restart
+   */
+  initialDelay?: number
+  maxDelay?: number
+  /**
+   * If the server was alive for longer than this duration, a crash is not considered consecutive to the previous one
+   */
+  resetDelay?: number
+}
+
+export interface DocumentSynchronizationPolicy {
+  /**
+   * Delay of inactivity after which the client changes are sent to the server, 500ms by default
+   */
+  debounceDelay?: number
+  /**
+   * Maximum delay before sending the client changes to the server even if the client keeps changing the documents, 2s by default
+   */
+  maxLatency?: number
+  /**
+   * Number of client changes after which they are sent to the server immediately, 100 by default
+   */
+  maxPendingChanges?: number
+}
+
+/**
+ * The changes sent by a client in a `textDocument/didChange` notification
+ */
+export interface ClientDocumentChange {
+  uri: DocumentUri
+  contentChanges: TextDocumentContentChangeEvent[]
+}
+
+export type DiffWorkersOptions = Omit<DiffWorkerPoolOptions, 'logger'>
+
+interface PendingDocumentChanges {
+  uris: Set<DocumentUri>
+  flush: () => void
+}
+
+export interface LogMessageQuery {
+  /**
+   * Only returns the messages at least this severe (Error = 1, Warning = 2, Info = 3, Log = 4)
+   */
+  maxType?: MessageType
+  /**
+   * Only returns the most recent messages
+   */
+  limit?: number
+}
+
+/**
+ * The initialize params defined by the host, the server doesn't depend on the first client
+ */
+export type HostInitializeParams = Omit<InitializeParams, 'processId'> & Partial<Pick<InitializeParams, 'processId'>>
+
 export interface LanguageClientOptions {
+  /**
+   * When provided, the server is started as soon as the language client is created and the initialize params of the clients are only compared with them
+   */
+  initializeParams?: HostInitializeParams
+  /**
+   * Maximum duration of the server initialization, only applies if provided
+   */
+  serverStartTimeout?: number
+  /**
+   * Number of times the server start is retried on failure or timeout, only used with a connection factory
+   */
+  serverStartRetries?: number
+  /**
+   * Policy used to restart the server when it dies, only used with a connection factory
+   */
+  serverRestartPolicy?: LanguageServerRestartPolicy
   synchronizeConfigurationSections?: string[]
-  getConfiguration?: (key: string) => unknown
+  /**
+   * @param key The configuration section
+   * @param scopeUri The resource the configuration is requested for, if any
+   */
+  getConfiguration?: (key: string, scopeUri?: string) => unknown | Promise<unknown>
+  /**
+   * When fired, the configuration is computed again and sent to the server
+   */
+  onConfigurationChanged?: Event<void>
+  /**
+   * Number of log messages kept in memory, 1000 by default
+   */
+  maxLogMessages?: number
+  /**
+   * Called with the telemetry events sent by the server, they are given to the `unhandledNotificationHandler` otherwise
+   */
+  telemetryEventHandler?: (data: LSPAny) => void
+  /**
+   * How the server requests are dispatched to the clients, the clients which originated the request are always called first
+   * By default, every document of a `workspace/applyEdit` needs to be applied by one of the clients having it open, and the first client succeeding wins for `window/showDocument`
+   */
+  serverRequestStrategies?: {
+    applyEdit?: ServerRequestStrategy
+    showDocument?: ServerRequestStrategy
+  }
+  /**
+   * Allows the clients to control some configuration sections, by default the client configuration is ignored
+   */
+  configurationMergePolicy?: ConfigurationMergePolicy
+  /**
+   * When the client changes are sent to the server
+   */
+  documentSynchronizationPolicy?: DocumentSynchronizationPolicy
+  /**
+   * Computes the diffs of large documents in worker threads instead of the main thread (only supported in CommonJS)
+   */
+  diffWorkers?: DiffWorkersOptions
   disableSaveNotifications?: boolean
   interceptDidChangeWatchedFile?: boolean
   createCache?: () => ConnectionRequestCache
+  /**
+   * A cache shared with other processes, looked up after the `createCache` cache
+   */
+  createSharedCache?: () => AsyncConnectionRequestCache
   logger?: winston.Logger
   unhandledNotificationHandler?: (e: NotificationMessage) => void
 }
 
-export function createLanguageClient (connection: rpc.MessageConnection, options: LanguageClientOptions = {}): LanguageClient {
+/**
+ * @param connection The language server connection, or a factory creating a new server connection in which case the server is supervised and restarted when it dies
+ */
+export function createLanguageClient (connection: rpc.MessageConnection | LanguageServerConnectionFactory, options: LanguageClientOptions = {}): LanguageClient {
   const languageClient = new LanguageClient(
     connection,
     options
   )
+  if (options.initializeParams != null) {
+    // Warm the server up before the first client connects
+    languageClient.start().catch(error => {
+      options.logger?.error('Unable to start the language server', { error })
+    })
+  }
   return languageClient
 }
 
@@ -63,42 +212,137 @@ export class LanguageClient implements Disposable {
   private serverCapabilities: WatchableServerCapabilities | undefined
   private connectionPromise: Promise<rpc.MessageConnection> | undefined
   private connection: rpc.MessageConnection | undefined
+  // The raw connection of the currently running server, undefined while the server is (re)starting
+  private serverMessageConnection: rpc.MessageConnection | undefined
+  private connectionFactory: LanguageServerConnectionFactory
+  private supervised: boolean
+  private initializeParams: InitializeParams | undefined
+  private restartCount = 0
+  private disposeReason: LanguageClientDisposeReason | undefined
+  private lastStartTime = 0
   private _onDispose = new Emitter<LanguageClientDisposeReason>()
-  private lastDiagnostics = new Map<string, Diagnostic[]>()
+  private _onServerRestart = new Emitter<void>()
+  private readyDeferred = pDefer<void>()
+  private lastDiagnostics = new Map<string, PublishDiagnosticsParams>()
   private _onDiagnostics = new Emitter<PublishDiagnosticsParams>()
-  private _onCodeLensRefresh = new MultiRequestHandler<void, void, void>(CodeLensRefreshRequest.type, allVoidMerger)
-  private _onSemanticTokensRefresh = new MultiRequestHandler<void, void, void>(SemanticTokensRefreshRequest.type, allVoidMerger)
-  private _onDiagnosticRefresh = new MultiRequestHandler<void, void, void>(DiagnosticRefreshRequest.type, allVoidMerger)
-  private _onInlayHintRefresh = new MultiRequestHandler<void, void, void>(InlayHintRefreshRequest.type, allVoidMerger)
-  private _onInlineValueRefresh = new MultiRequestHandler<void, void, void>(InlineValueRefreshRequest.type, allVoidMerger)
-  private _onShowDocument = new MultiRequestHandler(ShowDocumentRequest.type, results => {
-    return {
-      success: results.every(result => (!(result instanceof Error) && result?.success) ?? false)
-    }
-  })
+  private _onCodeLensRefresh = new MultiRequestHandler<void, void, void>(CodeLensRefreshRequest.type, mergeStrategy(allVoidMerger))
+  private _onSemanticTokensRefresh = new MultiRequestHandler<void, void, void>(SemanticTokensRefreshRequest.type, mergeStrategy(allVoidMerger))
+  private _onDiagnosticRefresh = new MultiRequestHandler<void, void, void>(DiagnosticRefreshRequest.type, mergeStrategy(allVoidMerger))
+  private _onInlayHintRefresh = new MultiRequestHandler<void, void, void>(InlayHintRefreshRequest.type, mergeStrategy(allVoidMerger))
+  private _onInlineValueRefresh = new MultiRequestHandler<void, void, void>(InlineValueRefreshRequest.type, mergeStrategy(allVoidMerger))
+  private _onShowDocument: MultiRequestHandler<ShowDocumentParams, ShowDocumentResult, void>
+  private _workspaceApplyEditRequestHandler: MultiRequestHandler<ApplyWorkspaceEditParams, ApplyWorkspaceEditResult, void>
 
-  private _workspaceApplyEditRequestHandler = new MultiRequestHandler(ApplyWorkspaceEditRequest.type, singleHandlerMerger({
-    applied: false
-  }))
+  // The clients with a request which can trigger a server request in progress, the most recent first
+  private originators: TextDocuments<TextDocument>[] = []
+
+  private progressDispatcher = new ProgressDispatcher()
 
   private currentDocuments = new Map<string, TextDocument>()
+  private versionLedger = new DocumentVersionLedger<TextDocuments<TextDocument>>()
+  private changeHistory = new DocumentChangeHistory()
+  private workspaceDiagnosticBaseline = new WorkspaceDiagnosticBaseline()
+  // The documents changed by each client and not sent to the server yet
+  private pendingChanges = new Map<TextDocuments<TextDocument>, PendingDocumentChanges>()
+  // The document updates waiting for a diff computed in a worker
+  private pendingDocumentUpdates = new Set<Promise<void>>()
+  private pendingRequestCount = 0
+  private diffWorkerPool: DiffWorkerPool | undefined
 
   private synchronizedDocuments: TextDocuments<TextDocument>[] = []
-  private logMessages: LogMessageParams[]
+  private logMessages: RingBuffer<LogMessageParams>
+  private _onLogMessage = new Emitter<LogMessageParams>()
+  private _onShowMessage = new Emitter<ShowMessageParams>()
+  private _onShowMessageRequest: MultiRequestHandler<ShowMessageRequestParams, MessageActionItem | null, void>
   private cache?: ConnectionRequestCache
+  private cacheIndex?: RequestCacheIndex
+  private sharedCache?: AsyncConnectionRequestCache
+  private configurationMerger?: ConfigurationMerger<TextDocuments<TextDocument>>
+  private lastSynchronizedConfiguration: string | undefined
+  private configurationSynchronization: Promise<void> = Promise.resolve()
 
   constructor (
-    private _connection: rpc.MessageConnection,
+    connection: rpc.MessageConnection | LanguageServerConnectionFactory,
     public readonly options: LanguageClientOptions
   ) {
-    this.logMessages = []
+    // The failure is exposed to the host, it's not an unhandled rejection if nobody listens
+    this.readyDeferred.promise.catch(() => {})
+    this.logMessages = new RingBuffer(options.maxLogMessages ?? 1000)
+    this._onShowMessageRequest = new MultiRequestHandler(ShowMessageRequest.type, createRequestDispatchStrategy<ShowMessageRequestParams, MessageActionItem | null, void>(
+      ServerRequestStrategy.FirstAnswer,
+      result => result != null,
+      null,
+      { logger: options.logger }
+    ))
     this.cache = options.createCache?.()
+    this.sharedCache = options.createSharedCache?.()
+    if (this.cache != null) {
+      this.cacheIndex = new RequestCacheIndex(this.cache)
+    }
+    if (options.diffWorkers != null && options.diffWorkers.size > 0) {
+      this.diffWorkerPool = new DiffWorkerPool({ ...options.diffWorkers, logger: options.logger })
+    }
+    this._onShowDocument = new MultiRequestHandler(ShowDocumentRequest.type, createRequestDispatchStrategy<ShowDocumentParams, ShowDocumentResult, void>(
+      options.serverRequestStrategies?.showDocument ?? ServerRequestStrategy.FirstSuccess,
+      result => result.success,
+      { success: false },
+      { logger: options.logger }
+    ))
+    this._workspaceApplyEditRequestHandler = new MultiRequestHandler(ApplyWorkspaceEditRequest.type, createRequestDispatchStrategy<ApplyWorkspaceEditParams, ApplyWorkspaceEditResult, void>(
+      options.serverRequestStrategies?.applyEdit ?? ServerRequestStrategy.EveryDocument,
+      result => result.applied,
+      { applied: false },
+      {
+        // Each client only applies the edits on the documents it has open
+        documentPartition: {
+          getDocumentUris: params => getWorkspaceEditDocumentUris(params.edit),
+          isHandledBy: (uri, client) => (client as TextDocuments<TextDocument>).get(uri) != null,
+          restrict: (params, uris) => ({ ...params, edit: restrictWorkspaceEdit(params.edit, uris) }),
+          getFailureResult: (uris, handledUris) => ({
+            applied: false,
+            failureReason: handledUris.length > 0
+              ? `The documents ${uris.join(', ')} could not be applied by the clients, the documents ${handledUris.join(', ')} were applied`
+              : `The documents ${uris.join(', ')} could not be applied by the clients`
+          })
+        },
+        logger: options.logger
+      }
+    ))
+    if (options.configurationMergePolicy != null) {
+      this.configurationMerger = new ConfigurationMerger(options.configurationMergePolicy, async (section, scopeUri) => options.getConfiguration?.(section, scopeUri))
+    }
+    options.onConfigurationChanged?.(() => {
+      this.updateConfiguration().catch(error => {
+        this.options.logger?.error('Unable to update the server configuration', { error })
+      })
+    })
+    this.supervised = typeof connection === 'function'
+    this.connectionFactory = typeof connection === 'function' ? connection : () => connection
+    this.progressDispatcher.onWorkDoneProgressCancel(token => {
+      this.connection?.sendNotification(WorkDoneProgressCancelNotification.type, { token }).catch(error => {
+        this.options.logger?.error('Unable to send notification to server', error)
+      })
+    })
   }
 
   get onDispose (): Event<LanguageClientDisposeReason> {
     return this._onDispose.event
   }
 
+  /**
+   * Resolved once the server is started, rejected if it was unable to start (the language client is then disposed) or if the language client was disposed before
+   */
+  get ready (): Promise<void> {
+    return this.readyDeferred.promise
+  }
+
+  /**
+   * Fired when the server was restarted, after the documents and the configuration are synchronized again
+   */
+  get onServerRestart (): Event<void> {
+    return this._onServerRestart.event
+  }
+
   get onDiagnostics (): Event<PublishDiagnosticsParams> {
     return this._onDiagnostics.event
   }
@@ -119,6 +363,32 @@ export class LanguageClient implements Disposable {
     return this._onDidWatchedFileChanged.event
   }
 
+  get onLogMessage (): Event<LogMessageParams> {
+    return this._onLogMessage.event
+  }
+
+  get onShowMessage (): Event<ShowMessageParams> {
+    return this._onShowMessage.event
+  }
+
+  get onShowMessageRequest (): RequestHandlerRegistration<ShowMessageRequestParams, MessageActionItem | null, void> {
+    return this._onShowMessageRequest.onRequest
+  }
+
+  /**
+   * Marks a client as originator of the server requests (applyEdit, showDocument) received until the returned disposable is disposed
+   * @param documents The documents of the client, used to identify it
+   */
+  public trackOriginatingRequest (documents: TextDocuments<TextDocument>): Disposable {
+    this.originators.unshift(documents)
+    return Disposable.create(() => {
+      const index = this.originators.indexOf(documents)
+      if (index >= 0) {
+        this.originators.splice(index, 1)
+      }
+    })
+  }
+
   public get onWorkspaceApplyEdit (): RequestHandlerRegistration<ApplyWorkspaceEditParams, ApplyWorkspaceEditResult, void> {
     return this._workspaceApplyEditRequestHandler.onRequest
   }
@@ -148,7 +418,69 @@ export class LanguageClient implements Disposable {
   }
 
   private async startConnection (initializeParams: InitializeParams): Promise<rpc.MessageConnection> {
-    const connection = this.cache != null ? createMemoizedConnection(this._connection, this.cache) : this._connection
+    const retries = this.supervised ? this.options.serverStartRetries ?? 0 : 0
+    for (let attempt = 0; ; ++attempt) {
+      const messageConnection = await this.connectionFactory()
+      try {
+        const initialization = this.initializeConnection(messageConnection, initializeParams)
+        const serverStartTimeout = this.options.serverStartTimeout
+        const connection = serverStartTimeout != null
+          ? await timeout(serverStartTimeout, initialization, new TimeoutError('Timeout while starting the language server'))
+          : await initialization
+        this.serverMessageConnection = messageConnection
+        this.lastStartTime = Date.now()
+        return connection
+      } catch (error) {
+        if (attempt >= retries) {
+          if (this.supervised) {
+            messageConnection.dispose()
+          }
+          throw error
+        }
+        this.options.logger?.warn(`Unable to start the language server (attempt ${attempt + 1}/${retries + 1}), retrying`, { error })
+        messageConnection.dispose()
+        await delay(this.getRestartDelay(attempt))
+      }
+    }
+  }
+
+  private getRestartDelay (attempt: number): number {
+    const initialDelay = this.options.serverRestartPolicy?.initialDelay ?? ms('1 second')
+    const maxDelay = this.options.serverRestartPolicy?.maxDelay ?? ms('30 seconds')
+    return Math.min(initialDelay * 2 ** attempt, maxDelay)
+  }
+
+  /**
+   * Counts the requests sent to the server which are not answered yet
+   */
+  private countPendingRequests: RequestInterceptor = async (method, args, token, next) => {
+    this.pendingRequestCount++
+    try {
+      return await next(args, token)
+    } finally {
+      this.pendingRequestCount--
+    }
+  }
+
+  private async initializeConnection (messageConnection: rpc.MessageConnection, initializeParams: InitializeParams): Promise<rpc.MessageConnection> {
+    // The first interceptor handles the requests first
+    const interceptors: RequestInterceptor[] = []
+    if (this.cache != null && this.cacheIndex != null) {
+      interceptors.push(createMemoizingInterceptor(this.cache, this.cacheIndex))
+    }
+    if (this.sharedCache != null) {
+      // The processes only share the results of servers started the same way, with the same configuration
+      const { processId, workDoneToken, ...sharedInitializeParams } = initializeParams
+      const initializeParamsHash = objectHash(sharedInitializeParams)
+      const getEnvironment = () => ({
+        initializeParams: initializeParamsHash,
+        configuration: this.lastSynchronizedConfiguration ?? null
+      })
+      interceptors.push(createSharedMemoizingInterceptor(this.sharedCache, uri => this.currentDocuments.get(uri), getEnvironment, error => {
+        this.options.logger?.error('Unable to use the shared cache', { error })
+      }))
+    }
+    const connection = interceptRequests(messageConnection, ...interceptors, this.countPendingRequests)
     connection.onRequest(RegistrationRequest.type, (params) => {
       this.serverCapabilities!.handleRegistrationRequest(params)
     })
@@ -158,7 +490,7 @@ export class LanguageClient implements Disposable {
     })
 
     connection.onRequest(ConfigurationRequest.type, (params) => {
-      return params.items.map((item) => item.section == null ? null : this.options.getConfiguration?.(item.section))
+      return Promise.all(params.items.map(async (item) => item.section == null ? null : await this.getConfiguration(item.section, item.scopeUri)))
     })
     connection.onRequest(CodeLensRefreshRequest.type, (token) => {
       return this._onCodeLensRefresh.sendRequest(undefined, token)
@@ -176,36 +508,50 @@ export class LanguageClient implements Disposable {
       return this._onInlineValueRefresh.sendRequest(undefined, token)
     })
     connection.onRequest(ShowDocumentRequest.type, (params, token) => {
-      return this._onShowDocument.sendRequest(params, token)
+      return this._onShowDocument.dispatchRequest(params, token, [...this.originators])
     })
     connection.onRequest(ExecuteCommandRequest.type, (params) => {
       this.options.logger?.debug(`Ignored Execute command from server ${params.command}(${JSON.stringify(params.arguments)})`)
     })
     connection.onRequest(ApplyWorkspaceEditRequest.type, async (params, token) => {
-      return this._workspaceApplyEditRequestHandler.sendRequest(params, token)
+      return this._workspaceApplyEditRequestHandler.dispatchRequest(params, token, [...this.originators])
     })
     connection.onNotification(PublishDiagnosticsNotification.type, (notif) => {
-      this._onDiagnostics.fire(notif)
+      // Without version, the diagnostics are considered computed on the current server document
+      const params: PublishDiagnosticsParams = {
+        ...notif,
+        version: notif.version ?? this.currentDocuments.get(notif.uri)?.version
+      }
+      this._onDiagnostics.fire(params)
       if (this.isDocumentOpen(notif.uri)) {
-        this.lastDiagnostics.set(notif.uri, notif.diagnostics)
+        this.lastDiagnostics.set(notif.uri, params)
       }
     })
     connection.onNotification(LogMessageNotification.type, (params) => {
       this.logMessages.push(params)
       this.options.logger?.debug(`Log message from server (${params.type}): ${params.message}`)
+      this._onLogMessage.fire(params)
     })
     connection.onNotification(ShowMessageNotification.type, (params) => {
       this.options.logger?.debug(`Show message from server (${params.type}): ${params.message}`)
+      this._onShowMessage.fire(params)
     })
-    connection.onRequest(ShowMessageRequest.type, (params) => {
-      this.options.logger?.warn('Unexpected ShowMessageRequest', params)
-      return null
+    connection.onRequest(ShowMessageRequest.type, (params, token) => {
+      return this._onShowMessageRequest.dispatchRequest(params, token, [...this.originators])
     })
-    connection.onRequest(WorkDoneProgressCreateRequest.type, () => {
-      // FIXME: forward request to clients?
+    const telemetryEventHandler = this.options.telemetryEventHandler
+    if (telemetryEventHandler != null) {
+      connection.onNotification(TelemetryEventNotification.type, telemetryEventHandler)
+    }
+    connection.onRequest(WorkDoneProgressCreateRequest.type, (params) => {
+      this.progressDispatcher.handleWorkDoneProgressCreate(params.token)
     })
     connection.onUnhandledNotification(this.options.unhandledNotificationHandler ?? (() => null))
-    connection.onUnhandledProgress(() => {})
+    connection.onUnhandledProgress((params) => {
+      if (!this.progressDispatcher.handleProgress(params)) {
+        this.options.logger?.debug(`Ignored progress from server with unknown token ${params.token}`)
+      }
+    })
 
     // We've binded every requests we need, so display any other request as an error
     connection.onRequest((method, params) => {
@@ -218,16 +564,114 @@ export class LanguageClient implements Disposable {
     connection.listen()
 
     connection.onDispose(() => {
-      const byRemote = !this.disposed
-      this.disposed = true
-      this._onDispose.fire(byRemote ? LanguageClientDisposeReason.Remote : LanguageClientDisposeReason.Local)
+      this.handleConnectionEnd(messageConnection)
     })
+    if (this.supervised) {
+      // The stream closing is the only way to detect a dead server if nobody disposes the connection
+      connection.onClose(() => {
+        this.handleConnectionEnd(messageConnection)
+      })
+    }
 
     const initializationResult = await connection.sendRequest(InitializeRequest.type, {
       ...initializeParams,
       capabilities: transformClientCapabilities(initializeParams.capabilities, this.options.interceptDidChangeWatchedFile ?? false)
     })
-    this.serverCapabilities = new WatchableServerCapabilities(initializationResult.capabilities)
+    const positionEncoding = initializationResult.capabilities.positionEncoding ?? serverPositionEncoding
+    if (positionEncoding !== serverPositionEncoding) {
+      this.options.logger?.warn(`The server uses the ${positionEncoding} position encoding while only ${serverPositionEncoding} was offered, the positions will be wrong`)
+    }
+    if (this.serverCapabilities != null) {
+      // The server was restarted, it will register its dynamic capabilities again
+      this.serverCapabilities.reset(initializationResult.capabilities)
+    } else {
+      this.createServerCapabilities(initializationResult.capabilities)
+    }
+
+    await connection.sendNotification(InitializedNotification.type, {})
+
+    const synchronizedConfiguration = await this.getSynchronizedConfiguration()
+    this.lastSynchronizedConfiguration = JSON.stringify(synchronizedConfiguration)
+    if (synchronizedConfiguration != null) {
+      await connection.sendNotification(DidChangeConfigurationNotification.type, {
+        settings: synchronizedConfiguration
+      })
+    }
+
+    return connection
+  }
+
+  private async getConfiguration (section: string, scopeUri?: string): Promise<unknown> {
+    if (this.configurationMerger != null) {
+      const owners = scopeUri != null ? this.synchronizedDocuments.filter(documents => documents.get(scopeUri) != null) : undefined
+      return await this.configurationMerger.getConfiguration(section, scopeUri, owners)
+    }
+    return await this.options.getConfiguration?.(section, scopeUri)
+  }
+
+  private async getSynchronizedConfiguration (): Promise<object | undefined> {
+    const synchronizeConfigurationSections = this.options.synchronizeConfigurationSections
+    if (synchronizeConfigurationSections == null || synchronizeConfigurationSections.length === 0) {
+      return undefined
+    }
+    const values = await Promise.all(synchronizeConfigurationSections.map(section => this.getConfiguration(section)))
+    return synchronizeConfigurationSections.reduce((config, section, index) => {
+      setValueBySection(config, section, values[index])
+      return config
+    }, {})
+  }
+
+  /**
+   * Notifies the server that the configuration may have changed
+   * @param force Send the notification even if the synchronized sections didn't change
+   */
+  private async synchronizeConfiguration (force: boolean = false): Promise<void> {
+    // Serialize the synchronizations so the server always ends with the latest configuration
+    const synchronization = this.configurationSynchronization.then(async () => {
+      const serverConnection = this.connection
+      if (serverConnection == null) {
+        // The configuration will be sent on initialization
+        return
+      }
+      const synchronizedConfiguration = await this.getSynchronizedConfiguration()
+      const serializedConfiguration = JSON.stringify(synchronizedConfiguration)
+      if (!force && synchronizedConfiguration != null && serializedConfiguration === this.lastSynchronizedConfiguration) {
+        return
+      }
+      this.lastSynchronizedConfiguration = serializedConfiguration
+      this.cacheIndex?.reset()
+      // Without synchronized sections, a null settings will make the server pull the configuration again
+      await serverConnection.sendNotification(DidChangeConfigurationNotification.type, {
+        settings: synchronizedConfiguration ?? null
+      })
+    })
+    this.configurationSynchronization = synchronization.catch(() => {})
+    await synchronization
+  }
+
+  /**
+   * Computes the configuration again and sends it to the server, to be called when the host configuration changed
+   */
+  public async updateConfiguration (): Promise<void> {
+    await this.synchronizeConfiguration(true)
+  }
+
+  /**
+   * Updates the settings declared by a client
+   * @param documents The documents of the client, used to identify it
+   */
+  public setClientSettings (documents: TextDocuments<TextDocument>, settings: unknown): void {
+    if (this.configurationMerger == null) {
+      return
+    }
+    this.configurationMerger.setClientSettings(documents, settings)
+    this.synchronizeConfiguration().catch(error => {
+      this.options.logger?.error('Unable to update the server configuration', { error })
+    })
+  }
+
+  private createServerCapabilities (capabilities: ServerCapabilities<void>) {
+    this.serverCapabilities = new WatchableServerCapabilities(capabilities)
 
     // If the server did register a didOpen capability, we need to send a didOpen notification for every open document
     this.serverCapabilities.onRegistrationRequest((request) => {
@@ -247,42 +691,121 @@ export class LanguageClient implements Disposable {
     this.serverCapabilities.onDidWatchedFileChanged((watchers) => {
       this._onDidWatchedFileChanged.fire(watchers)
     })
+  }
 
-    await connection.sendNotification(InitializedNotification.type, {})
+  private handleConnectionEnd (messageConnection: rpc.MessageConnection) {
+    if (messageConnection !== this.serverMessageConnection) {
+      // Either the server is still starting (the start will fail by itself) or it's a previous server instance
+      return
+    }
+    this.serverMessageConnection = undefined
+    this.connection = undefined
+    if (this.disposed) {
+      this.fireDispose(LanguageClientDisposeReason.Local)
+      return
+    }
+    if (!this.supervised) {
+      this.disposed = true
+      this.fireDispose(LanguageClientDisposeReason.Remote)
+      return
+    }
 
-    const synchronizeConfigurationSections = this.options.synchronizeConfigurationSections
-    if (synchronizeConfigurationSections != null && synchronizeConfigurationSections.length > 0) {
-      const synchronizedConfiguration = synchronizeConfigurationSections.reduce((config, section) => {
-        setValueBySection(config, section, this.options.getConfiguration?.(section))
-        return config
-      }, {})
+    const resetDelay = this.options.serverRestartPolicy?.resetDelay ?? ms('1 minute')
+    if (Date.now() - this.lastStartTime > resetDelay) {
+      this.restartCount = 0
+    }
+    this.options.logger?.warn('The language server connection was lost, restarting it')
+    this.connectionPromise = this.recover()
+    this.connectionPromise.catch(() => {
+      // Already handled in recover
+    })
+  }
 
-      await connection.sendNotification(DidChangeConfigurationNotification.type, {
-        settings: synchronizedConfiguration
-      })
+  /**
+   * The dispose event is only fired once, whatever ends the language client first
+   */
+  private fireDispose (reason: LanguageClientDisposeReason): void {
+    if (this.disposeReason != null) {
+      return
     }
+    this.disposeReason = reason
+    this._onDispose.fire(reason)
+  }
 
+  private async recover (): Promise<rpc.MessageConnection> {
+    const maxRestarts = this.options.serverRestartPolicy?.maxRestarts ?? 5
+    for (;;) {
+      if (this.restartCount >= maxRestarts) {
+        const error = new Error(`Unable to restart the language server after ${this.restartCount} attempts`)
+        this.options.logger?.error(error.message)
+        if (!this.disposed) {
+          this.disposed = true
+          this.fireDispose(LanguageClientDisposeReason.Remote)
+        }
+        throw error
+      }
+      await delay(this.getRestartDelay(this.restartCount++))
+      if (this.disposed) {
+        this.fireDispose(LanguageClientDisposeReason.Local)
+        throw new Error('The language client was disposed while restarting the server')
+      }
+      try {
+        return await this.restoreConnection()
+      } catch (error) {
+        this.options.logger?.error('Unable to restart the language server', { error })
+      }
+    }
+  }
+
+  /**
+   * Starts a new server and synchronizes the currently open documents with it
+   */
+  private async restoreConnection (): Promise<rpc.MessageConnection> {
+    this.cacheIndex?.reset()
+    this.progressDispatcher.reset()
+    this.workspaceDiagnosticBaseline.reset()
+    const connection = await this.startConnection(this.initializeParams!)
+    // The notifications are sent in order, so the connection is exposed as soon as the documents open notifications are queued
+    // The changes made from then on are sent after them, and never lost
+    const openNotifications = Array.from(this.currentDocuments.values())
+      .filter(document => this.serverCapabilities!.getTextDocumentNotificationOptions(DidOpenTextDocumentNotification.type, document) != null)
+      .map(document => connection.sendNotification(DidOpenTextDocumentNotification.type, {
+        textDocument: TextDocumentItem.create(document.uri, document.languageId, document.version, document.getText())
+      }))
+    this.connection = connection
+    await Promise.all(openNotifications)
+    this._onServerRestart.fire()
     return connection
   }
 
-  public getLogMessages (): LogMessageParams[] {
-    return this.logMessages
+  /**
+   * @returns The last log messages sent by the server, from the oldest to the newest
+   */
+  public getLogMessages (query: LogMessageQuery = {}): LogMessageParams[] {
+    const messages = this.logMessages.toArray().filter(message => query.maxType == null || message.type <= query.maxType)
+    return query.limit != null ? messages.slice(-query.limit) : messages
   }
 
   private async sendDidOpenNotification (document: TextDocument) {
+    if (this.connection == null) {
+      // The server is restarting, the document will be open when it's ready
+      return
+    }
     const textDocumentItem = TextDocumentItem.create(document.uri, document.languageId, document.version, document.getText())
-    await this.connection!.sendNotification(DidOpenTextDocumentNotification.type, {
+    await this.connection.sendNotification(DidOpenTextDocumentNotification.type, {
       textDocument: textDocumentItem
     })
   }
 
   private openDocument (document: TextDocument) {
     if (this.isDocumentOpen(document.uri)) {
+      this.recordDocumentVersions(document.uri)
       return
     }
     const serverCapabilities = this.serverCapabilities!
     const newTextDocument = TextDocument.create(document.uri, document.languageId, 1, document.getText())
     this.currentDocuments.set(document.uri, newTextDocument)
+    this.changeHistory.open(document.uri, newTextDocument.version)
     if (serverCapabilities.getTextDocumentNotificationOptions(DidOpenTextDocumentNotification.type, newTextDocument) != null) {
       this.sendDidOpenNotification(newTextDocument).catch(error => {
         this.options.logger?.error('Unable to send notification to server', error)
@@ -291,61 +814,126 @@ export class LanguageClient implements Disposable {
 
     this._onDocumentOpen.fire(newTextDocument)
 
-    this.cache?.reset()
+    this.cacheIndex?.invalidateDocument(document.uri)
+    this.recordDocumentVersions(document.uri)
   }
 
-  private updateDocuments (documents: TextDocuments<TextDocument>) {
-    for (const document of documents.all()) {
-      this.updateDocument(document)
+  /**
+   * Associates the current version of the server document to the version of every client having the same content
+   */
+  private recordDocumentVersions (uri: DocumentUri) {
+    const serverDocument = this.currentDocuments.get(uri)
+    if (serverDocument == null) {
+      return
+    }
+    const serverText = serverDocument.getText()
+    for (const documents of this.synchronizedDocuments) {
+      const clientDocument = documents.get(uri)
+      if (clientDocument != null && clientDocument.getText() === serverText) {
+        this.versionLedger.record(documents, uri, serverDocument.version, clientDocument.version)
+      }
     }
   }
 
-  private updateDocument (document: TextDocument): void {
-    const serverCapabilities = this.serverCapabilities!
+  /**
+   * Waits for the document changes computed asynchronously to be sent to the server
+   */
+  public async waitForDocumentUpdates (): Promise<void> {
+    await Promise.all(this.pendingDocumentUpdates)
+  }
+
+  /**
+   * Sends the pending client changes to the server
+   * @param uris Only flushes the clients having pending changes on those documents, every client if undefined
+   */
+  public flushPendingChanges (uris?: DocumentUri[]): void {
+    for (const pendingChanges of Array.from(this.pendingChanges.values())) {
+      if (uris == null || uris.some(uri => pendingChanges.uris.has(uri))) {
+        pendingChanges.flush()
+      }
+    }
+  }
+
+  /**
+   * @param clientChanges The changes made by the client since the last update, if known
+   */
+  private updateDocument (document: TextDocument, clientChanges?: TextDocumentContentChangeEvent[]): void {
     const newCode = document.getText()
     const currentDocument = this.currentDocuments.get(document.uri)!
     if (currentDocument.getText() === newCode) {
+      this.recordDocumentVersions(document.uri)
       return
     }
 
-    /**
-     * Computing a diff can take a LONG time (> 1 second) when the old code and the new code are very different (after a copy/paste for instance).
-     *
-     * The change comming from the client is probably a whole code replacement already,
-     * but we have no way to know it here because it's only managed in vscode-languageserver `TextDocuments` class.
-     *
-     * There is no point of building a HUGE minimal diff when computing it from 2 different codes.
-     * Running a fonction for more than some milliseconds blocks the javascript event loop, making everyone else freeze, so it's not acceptable.
-     *
-     * There is also no simple heuristic to know if 2 codes are closer to each other or not.
-     *
-     * So the simplest way is to try to compute the diff but give up if it takes to much time.
-     * The only consequence of it is it will make the LSP think the whole file was changed,
-     * leading to a new parsing of it (But I doubt sending a huge diff is better).
-     */
+    const contentChanges = this.computeContentChanges(document, currentDocument, newCode, clientChanges)
+    if (!(contentChanges instanceof Promise)) {
+      this.applyContentChanges(currentDocument, contentChanges)
+      return
+    }
 
-    const lspDiffWithTimeout = (oldCode: string, newCode: string) => {
-      try {
-        return runWithTimeout(() => lspDiff(oldCode, newCode), 20)
-      } catch (error) {
-        this.options.logger?.error('Unable to compute diff between old code and new code, resetting the whole code', { error })
-        return [{
-          text: newCode
-        }]
+    const baseVersion = currentDocument.version
+    const update = contentChanges.then(contentChanges => {
+      if (this.currentDocuments.get(document.uri) !== currentDocument) {
+        // The document was closed in the meantime
+        return
+      }
+      if (currentDocument.version !== baseVersion) {
+        // The server document was updated in the meantime, the changes need to be computed again
+        this.updateDocument(document)
+        return
+      }
+      this.applyContentChanges(currentDocument, contentChanges)
+    }).finally(() => {
+      this.pendingDocumentUpdates.delete(update)
+    })
+    this.pendingDocumentUpdates.add(update)
+  }
+
+  private computeContentChanges (
+    document: TextDocument,
+    currentDocument: TextDocument,
+    newCode: string,
+    clientChanges?: TextDocumentContentChangeEvent[]
+  ): TextDocumentContentChangeEvent[] | Promise<TextDocumentContentChangeEvent[]> {
+    const textDocumentChangeOptions = this.serverCapabilities!.getTextDocumentNotificationOptions(DidChangeTextDocumentNotification.type, currentDocument)
+    if (textDocumentChangeOptions == null || textDocumentChangeOptions.syncKind !== TextDocumentSyncKind.Incremental) {
+      return [{
+        text: newCode
+      }]
+    }
+
+    if (clientChanges != null && this.synchronizedDocuments.filter(documents => documents.get(document.uri) != null).length === 1) {
+      // The client is the only one writing in the document, its own changes can be sent as is if they lead to the same code
+      const composedChanges = composeContentChanges(clientChanges)
+      const expectedDocument = TextDocument.update(TextDocument.create(document.uri, document.languageId, 0, currentDocument.getText()), composedChanges, 0)
+      if (expectedDocument.getText() === newCode) {
+        return composedChanges
       }
     }
 
-    const textDocumentChangeOptions = serverCapabilities.getTextDocumentNotificationOptions(DidChangeTextDocumentNotification.type, currentDocument)
-    const contentChanges = textDocumentChangeOptions != null && textDocumentChangeOptions.syncKind === TextDocumentSyncKind.Incremental
-      ? lspDiffWithTimeout(currentDocument.getText(), newCode)
-      : [{
-          text: newCode
-        }]
+    /**
+     * Computing a character level diff can take a LONG time (> 1 second) when the old code and the new code are very different (after a copy/paste for instance),
+     * and running a function for more than some milliseconds blocks the javascript event loop, making everyone else freeze.
+     *
+     * The diff engine narrows the changed regions at the line level first and only refines the small ones at the character level, so its duration is bounded.
+     * For large documents, the remaining cost can still be moved to worker threads.
+     */
+    const oldCode = currentDocument.getText()
+    if (this.diffWorkerPool != null) {
+      return this.diffWorkerPool.lspDiff(oldCode, newCode).catch((error: Error) => {
+        this.options.logger?.error('Unable to compute diff in a worker, computing it on the main thread', { error })
+        return lspDiff(oldCode, newCode)
+      })
+    }
+    return lspDiff(oldCode, newCode)
+  }
 
+  private applyContentChanges (currentDocument: TextDocument, contentChanges: TextDocumentContentChangeEvent[]): void {
+    const textDocumentChangeOptions = this.serverCapabilities!.getTextDocumentNotificationOptions(DidChangeTextDocumentNotification.type, currentDocument)
     const newDocument = TextDocument.update(currentDocument, contentChanges, currentDocument.version + 1)
 
-    const serverConnection = this.connection!
-    if (textDocumentChangeOptions != null && textDocumentChangeOptions.syncKind !== TextDocumentSyncKind.None) {
+    const serverConnection = this.connection
+    if (serverConnection != null && textDocumentChangeOptions != null && textDocumentChangeOptions.syncKind !== TextDocumentSyncKind.None) {
       serverConnection.sendNotification(DidChangeTextDocumentNotification.type, {
         textDocument: {
           uri: newDocument.uri,
@@ -357,9 +945,11 @@ export class LanguageClient implements Disposable {
       })
     }
 
-    this.cache?.reset()
+    this.cacheIndex?.invalidateDocument(newDocument.uri)
 
-    this.currentDocuments.set(document.uri, newDocument)
+    this.currentDocuments.set(newDocument.uri, newDocument)
+    this.changeHistory.record(newDocument.uri, newDocument.version, contentChanges)
+    this.recordDocumentVersions(newDocument.uri)
 
     this._onDocumentChanged.fire(newDocument)
   }
@@ -373,8 +963,8 @@ export class LanguageClient implements Disposable {
 
     const serverCapabilities = this.serverCapabilities!
     const textDocumentCloseOptions = serverCapabilities.getTextDocumentNotificationOptions(DidCloseTextDocumentNotification.type, currentDocument)
-    const serverConnection = this.connection!
-    if (textDocumentCloseOptions != null && !this.isDisposed()) {
+    const serverConnection = this.connection
+    if (serverConnection != null && textDocumentCloseOptions != null && !this.isDisposed()) {
       serverConnection.sendNotification(DidCloseTextDocumentNotification.type, {
         textDocument: TextDocumentIdentifier.create(document.uri)
       }).catch(error => {
@@ -383,7 +973,10 @@ export class LanguageClient implements Disposable {
     }
     this.lastDiagnostics.delete(document.uri)
     this.currentDocuments.delete(document.uri)
-    this.cache?.reset()
+    this.versionLedger.deleteDocument(document.uri)
+    this.changeHistory.deleteDocument(document.uri)
+    this.cacheIndex?.invalidateDocument(document.uri)
+    this.workspaceDiagnosticBaseline.deleteDocument(document.uri)
 
     this._onDocumentClosed.fire(currentDocument)
   }
@@ -392,11 +985,146 @@ export class LanguageClient implements Disposable {
     return this.currentDocuments.has(uri)
   }
 
-  public getLastDiagnostics (uri: string): Diagnostic[] | undefined {
+  /**
+   * Computes the changes to apply on positions computed by the server to get positions in the client document
+   * @param serverVersion The server document version the positions were computed on, or null if unknown (the current server version is then used)
+   * @returns The client version and the change batches to rebase the positions through, or undefined if the client changes can't be computed
+   */
+  private getClientChanges (documents: TextDocuments<TextDocument>, uri: DocumentUri, serverVersion: number | null): { version: number, changes: TextDocumentContentChangeEvent[][] } | undefined {
+    const clientDocument = documents.get(uri)!
+    if (serverVersion != null && this.versionLedger.getClientVersion(documents, uri, serverVersion) === clientDocument.version) {
+      return { version: clientDocument.version, changes: [] }
+    }
+    const serverDocument = this.currentDocuments.get(uri)
+    if (serverDocument == null) {
+      return undefined
+    }
+    // The changes sent to the server since the version the positions were computed on
+    const serverChanges = serverVersion != null ? this.changeHistory.getChangesSince(uri, serverVersion) : []
+    if (serverChanges == null) {
+      return undefined
+    }
+    const serverText = serverDocument.getText()
+    const clientText = clientDocument.getText()
+    if (serverText === clientText) {
+      return { version: clientDocument.version, changes: serverChanges }
+    }
+    // The client changes not sent to the server yet
+    const pendingChanges = lspDiff(serverText, clientText)
+    return { version: clientDocument.version, changes: [...serverChanges, pendingChanges] }
+  }
+
+  /**
+   * Translates a workspace edit computed by the server so it can be applied by a client:
+   * - the versions of the documents the client has open are translated to the client versions
+   * - if the client document was changed since the server version, the edits are moved accordingly
+   * - the edits on documents the client doesn't have open and the resource operations are removed, unless `keepOtherChanges` is set
+   * @param documents The documents of the client
+   * @param keepOtherChanges Keep the edits on the other documents and the resource operations as is, for the results of the client requests
+   * @returns The translated edit, or undefined if the client document was modified where the edits apply
+   */
+  public adaptWorkspaceEdit (documents: TextDocuments<TextDocument>, edit: WorkspaceEdit, keepOtherChanges: boolean = false): WorkspaceEdit | undefined {
+    const adaptTextEdits = <T extends TextEdit> (uri: DocumentUri, edits: T[], serverVersion: number | null): { version: number, edits: T[] } | undefined => {
+      const clientChanges = this.getClientChanges(documents, uri, serverVersion)
+      if (clientChanges == null) {
+        return undefined
+      }
+      const rebasedEdits: T[] = []
+      for (const textEdit of edits) {
+        const range = rebaseRanges(textEdit.range, clientChanges.changes)
+        if (range == null) {
+          return undefined
+        }
+        rebasedEdits.push({ ...textEdit, range })
+      }
+      return { version: clientChanges.version, edits: rebasedEdits }
+    }
+    let changes: WorkspaceEdit['changes']
+    if (edit.changes != null) {
+      changes = {}
+      for (const [uri, textEdits] of Object.entries(edit.changes)) {
+        if (documents.get(uri) == null) {
+          if (keepOtherChanges) {
+            changes[uri] = textEdits
+          }
+          continue
+        }
+        const adapted = adaptTextEdits(uri, textEdits, null)
+        if (adapted == null) {
+          return undefined
+        }
+        changes[uri] = adapted.edits
+      }
+    }
+    let documentChanges: WorkspaceEdit['documentChanges']
+    if (edit.documentChanges != null) {
+      documentChanges = []
+      for (const documentEdit of edit.documentChanges) {
+        if (!TextDocumentEdit.is(documentEdit) || documents.get(documentEdit.textDocument.uri) == null) {
+          if (keepOtherChanges) {
+            documentChanges.push(documentEdit)
+          }
+          continue
+        }
+        const uri = documentEdit.textDocument.uri
+        const adapted = adaptTextEdits(uri, documentEdit.edits, documentEdit.textDocument.version)
+        if (adapted == null) {
+          return undefined
+        }
+        documentChanges.push({
+          textDocument: { uri, version: adapted.version },
+          edits: adapted.edits
+        })
+      }
+    }
+    return {
+      ...edit,
+      changes,
+      documentChanges
+    }
+  }
+
+  /**
+   * Moves the diagnostics computed by the server to the current client document content
+   * The diagnostics located in a part of the document modified by the client are dropped
+   * @param documents The documents of the client
+   */
+  public adaptDiagnostics (documents: TextDocuments<TextDocument>, params: PublishDiagnosticsParams): PublishDiagnosticsParams {
+    if (documents.get(params.uri) == null) {
+      return params
+    }
+    const clientChanges = this.getClientChanges(documents, params.uri, params.version ?? null)
+    if (clientChanges == null) {
+      // The server will publish new diagnostics for the current content anyway
+      return {
+        uri: params.uri,
+        version: documents.get(params.uri)!.version,
+        diagnostics: []
+      }
+    }
+    return {
+      uri: params.uri,
+      version: clientChanges.version,
+      diagnostics: params.diagnostics.flatMap(diagnostic => {
+        const range = rebaseRanges(diagnostic.range, clientChanges.changes)
+        return range != null ? [{ ...diagnostic, range }] : []
+      })
+    }
+  }
+
+  public getLastPublishedDiagnostics (uri: string): PublishDiagnosticsParams | undefined {
     return this.lastDiagnostics.get(uri)
   }
 
-  public synchronize (documents: TextDocuments<TextDocument>, flushEvent: Event<void>): Disposable {
+  public getLastDiagnostics (uri: string): Diagnostic[] | undefined {
+    return this.lastDiagnostics.get(uri)?.diagnostics
+  }
+
+  /**
+   * @param flushEvent Fired with the documents a client request is about, the pending changes of every client on those documents are then sent to the server
+   * @param changeEvent Fired with the changes sent by the client, before the documents are updated, allows to send them to the server instead of computing a diff
+   */
+  public synchronize (documents: TextDocuments<TextDocument>, flushEvent: Event<DocumentUri[] | undefined>, changeEvent?: Event<ClientDocumentChange>): Disposable {
     const disposableCollection = new DisposableCollection()
     this.synchronizedDocuments.push(documents)
 
@@ -412,25 +1140,78 @@ export class LanguageClient implements Disposable {
       for (const document of documents.all()) {
         this.closeDocument(document)
       }
+      this.versionLedger.deleteClient(documents)
+      if (this.configurationMerger?.deleteClient(documents) ?? false) {
+        this.synchronizeConfiguration().catch(error => {
+          this.options.logger?.error('Unable to update the server configuration', { error })
+        })
+      }
     }))
 
     disposableCollection.push(documents.onDidOpen(e => {
       this.openDocument(e.document)
     }))
     disposableCollection.push(documents.onDidClose(e => {
+      this.versionLedger.deleteDocument(e.document.uri, documents)
       this.closeDocument(e.document)
     }))
 
-    const debouncedUpdateDocuments = debounce(this.updateDocuments.bind(this), 500)
-    flushEvent(() => {
-      debouncedUpdateDocuments.flush()
+    const policy = this.options.documentSynchronizationPolicy
+    const pendingUris = new Set<DocumentUri>()
+    const pendingContentChanges = new Map<DocumentUri, TextDocumentContentChangeEvent[]>()
+    let pendingChangeCount = 0
+    let maxLatencyTimeout: NodeJS.Timeout | undefined
+    const updateDocuments = () => {
+      clearTimeout(maxLatencyTimeout)
+      maxLatencyTimeout = undefined
+      pendingChangeCount = 0
+      const uris = Array.from(pendingUris)
+      const contentChanges = new Map(pendingContentChanges)
+      pendingUris.clear()
+      pendingContentChanges.clear()
+      for (const uri of uris) {
+        const document = documents.get(uri)
+        if (document != null) {
+          this.updateDocument(document, contentChanges.get(uri))
+        }
+      }
+    }
+    const debouncedUpdateDocuments = debounce(updateDocuments, policy?.debounceDelay ?? 500)
+    this.pendingChanges.set(documents, {
+      uris: pendingUris,
+      flush: () => debouncedUpdateDocuments.flush()
     })
+    disposableCollection.push(flushEvent(uris => {
+      this.flushPendingChanges(uris)
+    }))
     disposableCollection.push(Disposable.create(() => {
+      this.pendingChanges.delete(documents)
       debouncedUpdateDocuments.clear()
+      clearTimeout(maxLatencyTimeout)
+    }))
+
+    if (changeEvent != null) {
+      disposableCollection.push(changeEvent(({ uri, contentChanges }) => {
+        pendingContentChanges.set(uri, [...(pendingContentChanges.get(uri) ?? []), ...contentChanges])
+      }))
+    }
+    disposableCollection.push(documents.onDidClose(e => {
+      pendingContentChanges.delete(e.document.uri)
     }))
 
-    disposableCollection.push(documents.onDidChangeContent(() => {
-      debouncedUpdateDocuments(documents)
+    disposableCollection.push(documents.onDidChangeContent(e => {
+      if (!pendingUris.has(e.document.uri) && this.currentDocuments.get(e.document.uri)?.getText() === e.document.getText()) {
+        // Nothing to send to the server, it's also fired when a client opens a document with the server content
+        this.recordDocumentVersions(e.document.uri)
+        return
+      }
+      pendingUris.add(e.document.uri)
+      debouncedUpdateDocuments()
+      if (++pendingChangeCount >= (policy?.maxPendingChanges ?? 100)) {
+        debouncedUpdateDocuments.flush()
+      } else if (maxLatencyTimeout == null) {
+        maxLatencyTimeout = setTimeout(() => debouncedUpdateDocuments.flush(), policy?.maxLatency ?? ms('2 seconds'))
+      }
     }))
 
     if (!(this.options.disableSaveNotifications ?? false)) {
@@ -456,9 +1237,9 @@ export class LanguageClient implements Disposable {
 
   private async sendDocumentWillSaveNotification (document: TextDocument, reason: TextDocumentSaveReason): Promise<void> {
     const serverCapabilities = this.serverCapabilities!
-    const serverConnection = this.connection!
+    const serverConnection = this.connection
     const saveOptions = serverCapabilities.getTextDocumentNotificationOptions(WillSaveTextDocumentNotification.type, document)
-    if (saveOptions != null) {
+    if (serverConnection != null && saveOptions != null) {
       await serverConnection.sendNotification(WillSaveTextDocumentNotification.type, {
         textDocument: {
           uri: document.uri
@@ -477,9 +1258,9 @@ export class LanguageClient implements Disposable {
 
   private async sendDocumentWillSaveWaitUntil (document: TextDocument, reason: TextDocumentSaveReason, token?: rpc.CancellationToken): Promise<TextEdit[] | null> {
     const serverCapabilities = this.serverCapabilities!
-    const serverConnection = this.connection!
+    const serverConnection = this.connection
     const willSaveWaitUntilOptions = serverCapabilities.getTextDocumentNotificationOptions(WillSaveTextDocumentWaitUntilRequest.type, document)
-    if (willSaveWaitUntilOptions != null) {
+    if (serverConnection != null && willSaveWaitUntilOptions != null) {
       return await serverConnection.sendRequest(WillSaveTextDocumentWaitUntilRequest.type, {
         textDocument: {
           uri: document.uri
@@ -501,10 +1282,11 @@ export class LanguageClient implements Disposable {
   }
 
   private async sendDocumentDidSaveNotification (document: TextDocument, text: string): Promise<void> {
+    await this.waitForDocumentUpdates()
     const serverCapabilities = this.serverCapabilities!
-    const serverConnection = this.connection!
+    const serverConnection = this.connection
     const saveOptions = serverCapabilities.getTextDocumentNotificationOptions(DidSaveTextDocumentNotification.type, document)
-    if (saveOptions != null) {
+    if (serverConnection != null && saveOptions != null) {
       const includeText = saveOptions.includeText ?? false
       await serverConnection.sendNotification(DidSaveTextDocumentNotification.type, {
         textDocument: {
@@ -532,8 +1314,11 @@ export class LanguageClient implements Disposable {
       return
     }
     const changes = events.filter(event => serverCapabilities.isPathWatched(event.uri, event.type))
+    for (const change of changes) {
+      this.cacheIndex?.invalidateDocument(change.uri)
+    }
     if (changes.length > 0) {
-      await this.getServerConnection().sendNotification(DidChangeWatchedFilesNotification.type, {
+      await (await this.getConnection()).sendNotification(DidChangeWatchedFilesNotification.type, {
         changes
       })
     }
@@ -543,19 +1328,61 @@ export class LanguageClient implements Disposable {
     return this.serverCapabilities?.getFileSystemWatchers() ?? []
   }
 
-  public getServerConnection (): rpc.MessageConnection {
-    return this.connection!
+  /**
+   * @returns The document as known by the server, with the changes of all the clients
+   */
+  public getServerDocument (uri: DocumentUri): TextDocument | undefined {
+    return this.currentDocuments.get(uri)
+  }
+
+  public getDocumentCount (): number {
+    return this.currentDocuments.size
+  }
+
+  /**
+   * @returns The number of requests sent to the server and not answered yet
+   */
+  public getPendingRequestCount (): number {
+    return this.pendingRequestCount
+  }
+
+  /**
+   * @returns The params the server was initialized with, the host ones or the ones of the first client
+   */
+  public getInitializeParams (): InitializeParams | undefined {
+    return this.initializeParams
+  }
+
+  /**
+   * @returns The server connection, undefined while the server is starting or restarting (see `getConnection` to wait for it)
+   */
+  public getServerConnection (): rpc.MessageConnection | undefined {
+    return this.connection
   }
 
-  public async start (initializeParams: InitializeParams): Promise<void> {
+  /**
+   * @param clientInitializeParams The params of the first client, ignored if the host defined the initialize params
+   */
+  public async start (clientInitializeParams?: InitializeParams): Promise<void> {
+    if (this.disposed) {
+      throw new Error('The language client is disposed')
+    }
     if (this.connectionPromise == null) {
+      const hostInitializeParams = this.options.initializeParams
+      const initializeParams = hostInitializeParams != null ? { processId: null, ...hostInitializeParams } : clientInitializeParams
+      if (initializeParams == null) {
+        throw new Error('The initialize params are required to start the language server')
+      }
+      this.initializeParams = initializeParams
       this.connectionPromise = this.startConnection(initializeParams)
       try {
         this.connection = await this.connectionPromise
+        this.readyDeferred.resolve()
       } catch (err) {
-        this.connectionPromise = undefined
+        // The language client is not usable without a server, the host or the pool is supposed to create a new one
         this.disposed = true
-        this._onDispose.fire(LanguageClientDisposeReason.Local)
+        this.fireDispose(LanguageClientDisposeReason.Remote)
+        this.readyDeferred.reject(err)
         throw err
       }
     } else {
@@ -563,10 +1390,53 @@ export class LanguageClient implements Disposable {
     }
   }
 
+  /**
+   * Stops the current server then starts a new one using the connection factory, without disconnecting the bound clients
+   */
+  public async restart (): Promise<void> {
+    if (!this.supervised) {
+      throw new Error('A connection factory is required to be able to restart the language server')
+    }
+    if (this.connectionPromise == null) {
+      throw new Error('The language server is not started')
+    }
+    const connection = await this.connectionPromise
+    const messageConnection = this.serverMessageConnection
+    // Prevent the connection end to be considered as a crash
+    this.serverMessageConnection = undefined
+    this.connection = undefined
+    this.connectionPromise = this.stopConnection(connection, messageConnection)
+      .then(() => this.restoreConnection())
+      .catch(error => {
+        this.options.logger?.error('Unable to restart the language server', { error })
+        return this.recover()
+      })
+    await this.connectionPromise
+  }
+
+  private async stopConnection (connection: rpc.MessageConnection, messageConnection?: rpc.MessageConnection): Promise<void> {
+    try {
+      await connection.sendRequest(ShutdownRequest.type)
+      await connection.sendNotification(ExitNotification.type)
+    } catch (error) {
+      this.options.logger?.warn('Unable to shutdown the language server properly', { error })
+    } finally {
+      (messageConnection ?? connection).dispose()
+    }
+  }
+
   public getConnection (): Promise<rpc.MessageConnection> {
     return this.connectionPromise!
   }
 
+  public getProgressDispatcher (): ProgressDispatcher {
+    return this.progressDispatcher
+  }
+
+  public getWorkspaceDiagnosticBaseline (): WorkspaceDiagnosticBaseline {
+    return this.workspaceDiagnosticBaseline
+  }
+
   public getServerCapabilities (): WatchableServerCapabilities {
     return this.serverCapabilities!
   }
@@ -580,11 +1450,19 @@ export class LanguageClient implements Disposable {
       return
     }
     this.disposed = true
-    const connection = await this.connectionPromise
+    this.readyDeferred.reject(new Error('The language client was disposed before the server was started'))
+    this.diffWorkerPool?.dispose()
+    this.workspaceDiagnosticBaseline.reset()
+    // The server may be restarting, the restart ends as soon as it notices the language client is disposed
+    const connection = await this.connectionPromise?.catch(() => undefined)
     try {
       await connection?.sendRequest(ShutdownRequest.type)
+    } catch (error) {
+      this.options.logger?.warn('Unable to shutdown the language server properly', { error })
     } finally {
       connection?.dispose()
+      // Nothing else fires it if the server was never started
+      this.fireDispose(LanguageClientDisposeReason.Local)
     }
   }
 }
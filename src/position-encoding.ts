@@ -0,0 +1,288 @@
+import {
+  ClientCapabilities, CodeActionRequest, CodeActionResolveRequest, CodeLensRequest, CodeLensResolveRequest, CompletionRequest, CompletionResolveRequest,
+  DocumentLinkRequest, DocumentLinkResolveRequest, InlayHintRequest, InlayHintResolveRequest, Position, PositionEncodingKind, Range, TextDocumentContentChangeEvent
+} from 'vscode-languageserver-protocol'
+import { DocumentUri, TextDocument } from 'vscode-languageserver-textdocument'
+
+/**
+ * The documents of the proxy are javascript strings, so the positions are handled in UTF-16 internally and with the server
+ */
+export const serverPositionEncoding = PositionEncodingKind.UTF16
+
+const supportedPositionEncodings = new Set<string>([PositionEncodingKind.UTF8, PositionEncodingKind.UTF16, PositionEncodingKind.UTF32])
+
+/**
+ * @returns The first encoding declared by the client which is supported, UTF-16 otherwise (it's mandatory)
+ */
+export function negotiatePositionEncoding (clientCapabilities: ClientCapabilities): PositionEncodingKind {
+  return clientCapabilities.general?.positionEncodings?.find(encoding => supportedPositionEncodings.has(encoding)) ?? PositionEncodingKind.UTF16
+}
+
+function getCodeUnitCount (codePoint: number, encoding: PositionEncodingKind): number {
+  switch (encoding) {
+    case PositionEncodingKind.UTF8:
+      return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+    case PositionEncodingKind.UTF32:
+      return 1
+    default:
+      return codePoint > 0xffff ? 2 : 1
+  }
+}
+
+/**
+ * @returns The UTF-16 character offset corresponding to a character offset in the given encoding
+ */
+function toUtf16Character (lineText: string, character: number, encoding: PositionEncodingKind): number {
+  let units = 0
+  let index = 0
+  while (index < lineText.length && units < character) {
+    const codePoint = lineText.codePointAt(index)!
+    units += getCodeUnitCount(codePoint, encoding)
+    index += codePoint > 0xffff ? 2 : 1
+  }
+  // The positions after the end of the line are kept as is
+  return index + Math.max(character - units, 0)
+}
+
+/**
+ * @returns The character offset in the given encoding corresponding to a UTF-16 character offset
+ */
+function fromUtf16Character (lineText: string, character: number, encoding: PositionEncodingKind): number {
+  let units = 0
+  let index = 0
+  while (index < lineText.length && index < character) {
+    const codePoint = lineText.codePointAt(index)!
+    units += getCodeUnitCount(codePoint, encoding)
+    index += codePoint > 0xffff ? 2 : 1
+  }
+  return units + Math.max(character - index, 0)
+}
+
+function getLineText (document: TextDocument, line: number): string {
+  return document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }).replace(/\r?\n$|\r$/, '')
+}
+
+function isObject (value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value != null
+}
+
+function isPosition (value: unknown): value is Position {
+  return isObject(value) && typeof value.line === 'number' && typeof value.character === 'number'
+}
+
+function isRange (value: unknown): value is Range {
+  return isObject(value) && isPosition(value.start) && isPosition(value.end)
+}
+
+// The maps keyed by document uri (WorkspaceEdit.changes, DocumentDiagnosticReport.relatedDocuments)
+const uriMapKeys = new Set(['changes', 'relatedDocuments'])
+// The fields holding a range or a list of ranges (`editRange` may also hold an `insert` and a `replace` range)
+const rangeKeys = new Set(['range', 'ranges', 'selectionRange', 'originSelectionRange', 'targetRange', 'targetSelectionRange', 'fromRanges', 'insert', 'replace', 'editRange', 'selection', 'stoppedLocation'])
+// The fields holding a position or a list of positions
+const positionKeys = new Set(['position', 'positions'])
+// The payloads which are opaque to the client, they go back to the server as is
+const opaqueKeys = new Set(['data', 'arguments'])
+
+// The requests returning items which can be resolved later, and the corresponding resolve requests
+const resolvableItemRequests = new Set<string>([CompletionRequest.method, CodeLensRequest.method, InlayHintRequest.method, CodeActionRequest.method, DocumentLinkRequest.method])
+const resolveRequests = new Set<string>([CompletionResolveRequest.method, CodeLensResolveRequest.method, InlayHintResolveRequest.method, CodeActionResolveRequest.method, DocumentLinkResolveRequest.method])
+
+/**
+ * The resolve requests don't tell the document of the item, so it's kept in the item data sent to the client
+ */
+interface ResolvableItemData {
+  documentUri: DocumentUri
+  data?: unknown
+}
+
+function isResolvableItemData (value: unknown): value is ResolvableItemData {
+  return isObject(value) && typeof value.documentUri === 'string'
+}
+
+/**
+ * @returns The items of a result which can be resolved later (the commands of the code action results are not)
+ */
+function getResolvableItems (method: string, result: unknown): Record<string, unknown>[] {
+  const items = method === CompletionRequest.method && isObject(result) && !Array.isArray(result) ? result.items : result
+  return Array.isArray(items) ? items.filter((item): item is Record<string, unknown> => isObject(item) && typeof item.command !== 'string') : []
+}
+
+/**
+ * Converts the positions exchanged with a client which doesn't use UTF-16
+ * The positions are looked up in the known range and position fields of the messages, the document they belong to is the closest `uri` (or `targetUri` for the location links)
+ * The positions of documents open neither by the client nor by the server can't be converted, they are kept as is
+ */
+export class PositionEncodingConverter {
+  constructor (
+    public readonly clientEncoding: PositionEncodingKind,
+    private getDocument: (uri: DocumentUri) => TextDocument | undefined
+  ) {
+  }
+
+  public get isIdentity (): boolean {
+    return this.clientEncoding === PositionEncodingKind.UTF16
+  }
+
+  /**
+   * @param uri The document the message is about, used for the positions which are not next to an uri
+   */
+  public toClient<T> (value: T, uri?: DocumentUri): T {
+    return this.isIdentity ? value : this.convertField(value, uri, fromUtf16Character) as T
+  }
+
+  public fromClient<T> (value: T, uri?: DocumentUri): T {
+    return this.isIdentity ? value : this.convertField(value, uri, toUtf16Character) as T
+  }
+
+  /**
+   * @returns The request params for the server, and the document of the item for the resolve requests
+   */
+  public requestFromClient (method: string, params: unknown): { params: unknown, uri?: DocumentUri } {
+    if (!this.isIdentity && resolveRequests.has(method) && isObject(params) && isResolvableItemData(params.data)) {
+      const { documentUri, data } = params.data
+      return { params: this.fromClient({ ...params, data }, documentUri), uri: documentUri }
+    }
+    return { params: this.fromClient(params) }
+  }
+
+  /**
+   * Also keeps the document in the data of the items which can be resolved later, so the positions of the resolved items can be converted
+   */
+  public resultToClient (method: string, result: unknown, uri?: DocumentUri): unknown {
+    const converted = this.toClient(result, uri)
+    if (this.isIdentity || uri == null) {
+      return converted
+    }
+    if (resolveRequests.has(method) && isObject(converted)) {
+      return { ...converted, data: { documentUri: uri, data: converted.data } }
+    }
+    if (resolvableItemRequests.has(method)) {
+      const defaultData = method === CompletionRequest.method && isObject(converted) && isObject(converted.itemDefaults) ? converted.itemDefaults.data : undefined
+      for (const item of getResolvableItems(method, converted)) {
+        item.data = { documentUri: uri, data: 'data' in item ? item.data : defaultData }
+      }
+    }
+    return converted
+  }
+
+  /**
+   * The changes are applied one after the other, each one is converted using the document text it is applied on
+   */
+  public changesFromClient (document: TextDocument, changes: TextDocumentContentChangeEvent[]): TextDocumentContentChangeEvent[] {
+    if (this.isIdentity || changes.every(change => !('range' in change))) {
+      return changes
+    }
+    const scratchDocument = TextDocument.create(document.uri, document.languageId, document.version, document.getText())
+    return changes.map(change => {
+      const convertedChange = 'range' in change
+        ? { range: this.convertRange(scratchDocument, change.range, toUtf16Character), text: change.text }
+        : change
+      TextDocument.update(scratchDocument, [convertedChange], scratchDocument.version)
+      return convertedChange
+    })
+  }
+
+  /**
+   * The semantic tokens start characters and lengths are encoded in the data, relatively to the previous token
+   */
+  public semanticTokensDataToClient (data: number[], uri: DocumentUri): number[] {
+    const document = this.getDocument(uri)
+    if (this.isIdentity || document == null) {
+      return data
+    }
+    const converted = [...data]
+    let line = 0
+    let character = 0
+    let previousConvertedCharacter = 0
+    let lineText = getLineText(document, 0)
+    for (let index = 0; index + 4 < data.length; index += 5) {
+      const deltaLine = data[index]!
+      if (deltaLine > 0) {
+        line += deltaLine
+        character = 0
+        previousConvertedCharacter = 0
+        lineText = getLineText(document, line)
+      }
+      character += data[index + 1]!
+      const start = fromUtf16Character(lineText, character, this.clientEncoding)
+      const end = fromUtf16Character(lineText, character + data[index + 2]!, this.clientEncoding)
+      converted[index + 1] = start - previousConvertedCharacter
+      converted[index + 2] = end - start
+      previousConvertedCharacter = start
+    }
+    return converted
+  }
+
+  private convertPosition (document: TextDocument, position: Position, convertCharacter: typeof toUtf16Character): Position {
+    return {
+      ...position,
+      character: convertCharacter(getLineText(document, position.line), position.character, this.clientEncoding)
+    }
+  }
+
+  private convertRange (document: TextDocument, range: Range, convertCharacter: typeof toUtf16Character): Range {
+    return {
+      ...range,
+      start: this.convertPosition(document, range.start, convertCharacter),
+      end: this.convertPosition(document, range.end, convertCharacter)
+    }
+  }
+
+  /**
+   * Converts the value of a range or a position field, or a message which is itself a range (like the `prepareRename` result)
+   */
+  private convertField (value: unknown, uri: DocumentUri | undefined, convertCharacter: typeof toUtf16Character): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.convertField(item, uri, convertCharacter))
+    }
+    const document = uri != null ? this.getDocument(uri) : undefined
+    if (isRange(value)) {
+      return document != null ? this.convertRange(document, value, convertCharacter) : value
+    }
+    if (isPosition(value)) {
+      return document != null ? this.convertPosition(document, value, convertCharacter) : value
+    }
+    return this.convert(value, uri, convertCharacter)
+  }
+
+  private convert (value: unknown, uri: DocumentUri | undefined, convertCharacter: typeof toUtf16Character): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.convert(item, uri, convertCharacter))
+    }
+    if (!isObject(value)) {
+      return value
+    }
+
+    const objectUri = typeof value.uri === 'string' ? value.uri : isObject(value.textDocument) && typeof value.textDocument.uri === 'string' ? value.textDocument.uri : uri
+    const converted: Record<string, unknown> = { ...value }
+    for (const [key, child] of Object.entries(value)) {
+      if (opaqueKeys.has(key)) {
+        continue
+      }
+      if (uriMapKeys.has(key) && isObject(child) && !Array.isArray(child)) {
+        converted[key] = Object.fromEntries(Object.entries(child).map(([childUri, item]) => [childUri, this.convert(item, childUri, convertCharacter)]))
+      } else if (key.startsWith('target') && typeof value.targetUri === 'string') {
+        // LocationLink, the origin range belongs to the request document
+        converted[key] = this.convertField(child, value.targetUri, convertCharacter)
+      } else if (key === 'fromRanges' && isObject(value.from) && typeof value.from.uri === 'string') {
+        // CallHierarchyIncomingCall, the ranges belong to the caller
+        converted[key] = this.convertField(child, value.from.uri, convertCharacter)
+      } else if (rangeKeys.has(key) || positionKeys.has(key)) {
+        converted[key] = this.convertField(child, objectUri, convertCharacter)
+      } else {
+        converted[key] = this.convert(child, objectUri, convertCharacter)
+      }
+    }
+    const objectDocument = objectUri != null ? this.getDocument(objectUri) : undefined
+    if (objectDocument != null && typeof value.startLine === 'number' && typeof value.endLine === 'number') {
+      // FoldingRange
+      if (typeof value.startCharacter === 'number') {
+        converted.startCharacter = convertCharacter(getLineText(objectDocument, value.startLine), value.startCharacter, this.clientEncoding)
+      }
+      if (typeof value.endCharacter === 'number') {
+        converted.endCharacter = convertCharacter(getLineText(objectDocument, value.endLine), value.endCharacter, this.clientEncoding)
+      }
+    }
+    return converted
+  }
+}
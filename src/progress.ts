@@ -0,0 +1,286 @@
+import {
+  Disposable, Emitter, Event, ProgressToken, WorkDoneProgress, WorkDoneProgressBegin, WorkDoneProgressCancelNotification,
+  WorkDoneProgressCreateRequest, WorkDoneProgressEnd, WorkDoneProgressReport
+} from 'vscode-languageserver-protocol'
+import * as rpc from 'vscode-jsonrpc'
+import winston from 'winston'
+import { DisposableCollection } from './tools/disposable'
+
+export type WorkDoneProgressValue = WorkDoneProgressBegin | WorkDoneProgressReport | WorkDoneProgressEnd
+
+export interface ProgressParams<T> {
+  token: ProgressToken
+  value: T
+}
+
+type ProgressHandler = (value: unknown) => void
+
+export function isWorkDoneProgressValue (value: unknown): value is WorkDoneProgressValue {
+  if (typeof value !== 'object' || value == null) {
+    return false
+  }
+  const kind = (value as Partial<WorkDoneProgressValue>).kind
+  return kind === 'begin' || kind === 'report' || kind === 'end'
+}
+
+export interface ProgressHandlerRegistration extends Disposable {
+  /**
+   * The unique token to send to the server instead of the client one
+   */
+  token: ProgressToken
+}
+
+interface ServerWorkDoneProgress {
+  /**
+   * The begin value, updated with every report so it can be replayed to new clients
+   */
+  state?: WorkDoneProgressBegin
+  /**
+   * Number of clients currently displaying the progress
+   */
+  viewers: number
+}
+
+/**
+ * Dispatches the progress notifications coming from the server:
+ * - to the client which sent the request if the progress token was provided by a client in a request
+ * - to every client if the progress was created by the server itself
+ */
+export class ProgressDispatcher {
+  private serverProgresses = new Map<ProgressToken, ServerWorkDoneProgress>()
+  private progressHandlers = new Map<ProgressToken, ProgressHandler>()
+  private lastTokenId = 0
+
+  private _onWorkDoneProgressCreate = new Emitter<ProgressToken>()
+  private _onWorkDoneProgress = new Emitter<ProgressParams<WorkDoneProgressValue>>()
+  private _onWorkDoneProgressCancel = new Emitter<ProgressToken>()
+
+  /**
+   * Fired when the server creates a progress
+   */
+  get onWorkDoneProgressCreate (): Event<ProgressToken> {
+    return this._onWorkDoneProgressCreate.event
+  }
+
+  /**
+   * Fired on every progress notification related to a progress created by the server
+   */
+  get onWorkDoneProgress (): Event<ProgressParams<WorkDoneProgressValue>> {
+    return this._onWorkDoneProgress.event
+  }
+
+  /**
+   * Fired when a progress should be cancelled on the server
+   */
+  get onWorkDoneProgressCancel (): Event<ProgressToken> {
+    return this._onWorkDoneProgressCancel.event
+  }
+
+  public handleWorkDoneProgressCreate (token: ProgressToken): void {
+    this.serverProgresses.set(token, {
+      viewers: 0
+    })
+    this._onWorkDoneProgressCreate.fire(token)
+  }
+
+  /**
+   * @returns true if the progress was dispatched
+   */
+  public handleProgress ({ token, value }: ProgressParams<unknown>): boolean {
+    const handler = this.progressHandlers.get(token)
+    if (handler != null) {
+      handler(value)
+      return true
+    }
+    const progress = this.serverProgresses.get(token)
+    if (progress == null || !isWorkDoneProgressValue(value)) {
+      return false
+    }
+    switch (value.kind) {
+      case 'begin':
+        progress.state = value
+        break
+      case 'report':
+        if (progress.state != null) {
+          progress.state = {
+            ...progress.state,
+            cancellable: value.cancellable ?? progress.state.cancellable,
+            message: value.message ?? progress.state.message,
+            percentage: value.percentage ?? progress.state.percentage
+          }
+        }
+        break
+      case 'end':
+        this.serverProgresses.delete(token)
+        break
+    }
+    this._onWorkDoneProgress.fire({ token, value })
+    return true
+  }
+
+  /**
+   * Registers a handler for the progress related to a single client request
+   */
+  public registerProgressHandler (handler: ProgressHandler): ProgressHandlerRegistration {
+    const token = this.createToken()
+    this.progressHandlers.set(token, handler)
+    return {
+      token,
+      dispose: () => {
+        this.progressHandlers.delete(token)
+      }
+    }
+  }
+
+  /**
+   * @returns A token which can't collide with the ones of the server or the clients
+   */
+  public createToken (): ProgressToken {
+    return `mutualized-progress-${++this.lastTokenId}`
+  }
+
+  /**
+   * @returns The progresses created by the server and not ended yet, with their current state
+   */
+  public getActiveWorkDoneProgresses (): ProgressParams<WorkDoneProgressBegin>[] {
+    return Array.from(this.serverProgresses.entries())
+      .filter((entry): entry is [ProgressToken, Required<ServerWorkDoneProgress>] => entry[1].state != null)
+      .map(([token, { state }]) => ({ token, value: state }))
+  }
+
+  public attachViewer (token: ProgressToken): void {
+    const progress = this.serverProgresses.get(token)
+    if (progress != null) {
+      progress.viewers++
+    }
+  }
+
+  /**
+   * The server progress is only cancelled when every client displaying it cancelled it
+   */
+  public detachViewer (token: ProgressToken, cancelled: boolean): void {
+    const progress = this.serverProgresses.get(token)
+    if (progress == null) {
+      return
+    }
+    progress.viewers = Math.max(progress.viewers - 1, 0)
+    if (cancelled && progress.viewers === 0) {
+      this._onWorkDoneProgressCancel.fire(token)
+    }
+  }
+
+  public cancelRequestWorkDoneProgress (token: ProgressToken): void {
+    if (this.progressHandlers.has(token)) {
+      this._onWorkDoneProgressCancel.fire(token)
+    }
+  }
+
+  /**
+   * Ends every server progress, used when the server is restarted
+   */
+  public reset (): void {
+    const tokens = Array.from(this.serverProgresses.keys())
+    this.serverProgresses.clear()
+    for (const token of tokens) {
+      this._onWorkDoneProgress.fire({
+        token,
+        value: { kind: 'end' }
+      })
+    }
+  }
+}
+
+/**
+ * Forwards the progresses created by the server to a client
+ * Each progress gets a new token on the client, the server tokens could collide with the tokens the client uses in its own requests
+ * @param requestTokens The client tokens used in the client requests, associated to the token sent to the server
+ */
+export function synchronizeWorkDoneProgress (
+  progressDispatcher: ProgressDispatcher,
+  clientConnection: rpc.MessageConnection,
+  requestTokens: Map<ProgressToken, ProgressToken>,
+  logger?: winston.Logger
+): Disposable {
+  const disposableCollection = new DisposableCollection()
+  try {
+    // For each server progress, resolved to true once the progress is created on the client, used to keep the notification order
+    const clientProgresses = new Map<ProgressToken, Promise<boolean>>()
+    // The client token of each server progress, and the other way around
+    const clientTokens = new Map<ProgressToken, ProgressToken>()
+    const serverTokens = new Map<ProgressToken, ProgressToken>()
+
+    const deleteProgress = (token: ProgressToken) => {
+      clientProgresses.delete(token)
+      serverTokens.delete(clientTokens.get(token)!)
+      clientTokens.delete(token)
+    }
+
+    const createProgress = (token: ProgressToken) => {
+      const clientToken = progressDispatcher.createToken()
+      clientTokens.set(token, clientToken)
+      serverTokens.set(clientToken, token)
+      // The client is counted as a viewer right away, so the other clients cancelling meanwhile don't cancel the progress on the server
+      progressDispatcher.attachViewer(token)
+      clientProgresses.set(token, clientConnection.sendRequest(WorkDoneProgressCreateRequest.type, { token: clientToken }).then(() => true, error => {
+        logger?.error('Unable to create progress on client', { error })
+        if (clientTokens.get(token) === clientToken) {
+          deleteProgress(token)
+          progressDispatcher.detachViewer(token, false)
+        }
+        return false
+      }))
+    }
+    const sendProgress = ({ token, value }: ProgressParams<WorkDoneProgressValue>) => {
+      const created = clientProgresses.get(token)
+      const clientToken = clientTokens.get(token)
+      if (created == null || clientToken == null) {
+        return
+      }
+      const sent = created.then(async (success) => {
+        if (success) {
+          await clientConnection.sendProgress(WorkDoneProgress.type, clientToken, value).catch(error => {
+            logger?.error('Unable to send progress to client', { error })
+          })
+        }
+        return success
+      })
+      if (value.kind === 'end') {
+        deleteProgress(token)
+      } else {
+        clientProgresses.set(token, sent)
+      }
+    }
+
+    for (const progress of progressDispatcher.getActiveWorkDoneProgresses()) {
+      createProgress(progress.token)
+      sendProgress(progress)
+    }
+    disposableCollection.push(progressDispatcher.onWorkDoneProgressCreate(createProgress))
+    disposableCollection.push(progressDispatcher.onWorkDoneProgress(sendProgress))
+
+    disposableCollection.push(clientConnection.onNotification(WorkDoneProgressCancelNotification.type, ({ token }) => {
+      const requestToken = requestTokens.get(token)
+      const serverToken = serverTokens.get(token)
+      if (requestToken != null) {
+        progressDispatcher.cancelRequestWorkDoneProgress(requestToken)
+      } else if (serverToken != null) {
+        deleteProgress(serverToken)
+        progressDispatcher.detachViewer(serverToken, true)
+      }
+    }))
+
+    disposableCollection.push(Disposable.create(() => {
+      for (const token of clientProgresses.keys()) {
+        progressDispatcher.detachViewer(token, false)
+      }
+      clientProgresses.clear()
+      clientTokens.clear()
+      serverTokens.clear()
+    }))
+
+    return disposableCollection
+  } catch (err) {
+    disposableCollection.dispose()
+    throw err
+  }
+}
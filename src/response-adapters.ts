@@ -0,0 +1,290 @@
+import {
+  ClientCapabilities, CodeAction, CodeActionRequest, CodeActionResolveRequest, Command, CompletionItem, CompletionList, CompletionRequest, CompletionResolveRequest,
+  DeclarationRequest, DefinitionRequest, DocumentSymbol, DocumentSymbolParams, DocumentSymbolRequest, Hover, HoverRequest, ImplementationRequest, InsertTextFormat,
+  Location, LocationLink, LSPErrorCodes, MarkedString, MarkupContent, MarkupKind, RenameRequest, ResponseError, SymbolInformation, TextDocumentEdit, TextEdit, TypeDefinitionRequest,
+  WorkspaceEdit
+} from 'vscode-languageserver-protocol'
+
+/**
+ * Only the initialize params of the first client reach the server, so the results are shaped for this client
+ * An adapter converts a result to what another client is able to handle, according to its capabilities
+ */
+export type ResponseAdapter = (result: unknown, params: unknown, clientCapabilities: ClientCapabilities) => unknown
+
+/**
+ * @returns The text inserted by a snippet, without the tab stops, and using the first value of the choices and the default value of the variables
+ */
+export function snippetToPlainText (snippet: string): string {
+  let index = 0
+  const parse = (isNested: boolean): string => {
+    let text = ''
+    while (index < snippet.length) {
+      const char = snippet[index]!
+      if (char === '\\' && index + 1 < snippet.length && '$}\\,|'.includes(snippet[index + 1]!)) {
+        text += snippet[index + 1]
+        index += 2
+      } else if (isNested && char === '}') {
+        return text
+      } else if (char === '$') {
+        text += parseDollar()
+      } else {
+        text += char
+        index++
+      }
+    }
+    return text
+  }
+  const parseDollar = (): string => {
+    const simpleMatch = /^\$(\d+|[_a-zA-Z][_a-zA-Z0-9]*)/.exec(snippet.slice(index))
+    if (simpleMatch != null) {
+      index += simpleMatch[0]!.length
+      return ''
+    }
+    const placeholderMatch = /^\$\{(\d+|[_a-zA-Z][_a-zA-Z0-9]*)(:|\||\})/.exec(snippet.slice(index))
+    if (placeholderMatch == null) {
+      index++
+      return '$'
+    }
+    index += placeholderMatch[0]!.length
+    switch (placeholderMatch[2]) {
+      case ':': {
+        const placeholder = parse(true)
+        index++
+        return placeholder
+      }
+      case '|': {
+        const end = snippet.indexOf('|}', index)
+        const choices = snippet.slice(index, end < 0 ? undefined : end)
+        index = end < 0 ? snippet.length : end + 2
+        return snippetToPlainText(choices.split(/(?<!\\),/)[0] ?? '')
+      }
+      default:
+        return ''
+    }
+  }
+  return parse(false)
+}
+
+/**
+ * @returns The text of the inline markdown, the code spans are kept as is
+ */
+function inlineMarkdownToPlainText (markdown: string): string {
+  // The split parts are the text, then the backticks and the content of each code span
+  return markdown.split(/(`+)([^]*?)\1/).map((part, index) => {
+    switch (index % 3) {
+      case 0:
+        return part
+          // Images and links
+          .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+          // Emphasis, the underscores within words are not
+          .replace(/(\*\*|__)(?=\S)([^]*?\S)\1/g, '$2')
+          .replace(/\*(?=\S)([^*]*?\S)\*/g, '$1')
+          .replace(/(?<!\w)_(?=\S)([^_]*?\S)_(?!\w)/g, '$1')
+          .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, '$1')
+      case 1:
+        return ''
+      default:
+        return part
+    }
+  }).join('')
+}
+
+/**
+ * @returns The text of the markdown, without the formatting (emphasis, links, headings, code fences...)
+ */
+export function markdownToPlainText (markdown: string): string {
+  let inCodeBlock = false
+  return markdown.split(/\r?\n/).flatMap(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock
+      return []
+    }
+    if (inCodeBlock) {
+      return [line]
+    }
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      // Horizontal rule
+      return []
+    }
+    return [inlineMarkdownToPlainText(line.replace(/^\s{0,3}#{1,6}\s+/, '').replace(/^\s{0,3}>\s?/, ''))]
+  }).join('\n')
+}
+
+function markedStringToPlainText (markedString: MarkedString): string {
+  // A string is markdown, an object is a code block
+  return typeof markedString === 'string' ? markdownToPlainText(markedString) : markedString.value
+}
+
+function adaptCompletionItem (item: CompletionItem, clientCapabilities: ClientCapabilities, defaultInsertTextFormat?: InsertTextFormat): CompletionItem {
+  const completionItemCapabilities = clientCapabilities.textDocument?.completion?.completionItem
+  let adaptedItem = item
+  if (!(completionItemCapabilities?.snippetSupport ?? false) && (item.insertTextFormat ?? defaultInsertTextFormat) === InsertTextFormat.Snippet) {
+    adaptedItem = {
+      ...adaptedItem,
+      insertTextFormat: InsertTextFormat.PlainText,
+      insertText: item.insertText != null ? snippetToPlainText(item.insertText) : undefined,
+      textEdit: item.textEdit != null ? { ...item.textEdit, newText: snippetToPlainText(item.textEdit.newText) } : undefined
+    }
+  }
+  if (MarkupContent.is(item.documentation) && !isMarkdownSupported(completionItemCapabilities?.documentationFormat)) {
+    adaptedItem = {
+      ...adaptedItem,
+      documentation: { kind: MarkupKind.PlainText, value: item.documentation.kind === MarkupKind.Markdown ? markdownToPlainText(item.documentation.value) : item.documentation.value }
+    }
+  }
+  return adaptedItem
+}
+
+function adaptCompletion (result: unknown, params: unknown, clientCapabilities: ClientCapabilities): unknown {
+  if (Array.isArray(result)) {
+    return (result as CompletionItem[]).map(item => adaptCompletionItem(item, clientCapabilities))
+  }
+  const list = result as CompletionList
+  const defaultInsertTextFormat = list.itemDefaults?.insertTextFormat
+  const snippetSupport = clientCapabilities.textDocument?.completion?.completionItem?.snippetSupport ?? false
+  return {
+    ...list,
+    itemDefaults: list.itemDefaults != null && defaultInsertTextFormat === InsertTextFormat.Snippet && !snippetSupport
+      ? { ...list.itemDefaults, insertTextFormat: InsertTextFormat.PlainText }
+      : list.itemDefaults,
+    items: list.items.map(item => adaptCompletionItem(item, clientCapabilities, defaultInsertTextFormat))
+  }
+}
+
+function isMarkdownSupported (formats?: MarkupKind[]): boolean {
+  // The clients which don't declare the formats only support plain text
+  return formats?.includes(MarkupKind.Markdown) ?? false
+}
+
+function adaptHover (result: unknown, params: unknown, clientCapabilities: ClientCapabilities): unknown {
+  const hover = result as Hover
+  if (isMarkdownSupported(clientCapabilities.textDocument?.hover?.contentFormat)) {
+    return hover
+  }
+  const contents = hover.contents
+  let value: string
+  if (MarkupContent.is(contents)) {
+    if (contents.kind !== MarkupKind.Markdown) {
+      return hover
+    }
+    value = markdownToPlainText(contents.value)
+  } else {
+    // The deprecated marked strings
+    value = (Array.isArray(contents) ? contents : [contents]).map(markedStringToPlainText).join('\n\n')
+  }
+  return {
+    ...hover,
+    contents: { kind: MarkupKind.PlainText, value }
+  }
+}
+
+/**
+ * The edits are converted to `changes` if the client doesn't support `documentChanges`
+ * The resource operations (create, rename, delete) can't be converted, the edit is then kept as is
+ * The `changes` can't carry change annotations, they are dropped
+ * @throws ResponseError if a change needs a confirmation, the client would apply it without asking
+ */
+export function adaptWorkspaceEditToClient (edit: WorkspaceEdit, clientCapabilities: ClientCapabilities): WorkspaceEdit {
+  if (edit.documentChanges == null || (clientCapabilities.workspace?.workspaceEdit?.documentChanges ?? false)) {
+    return edit
+  }
+  if (!edit.documentChanges.every(TextDocumentEdit.is)) {
+    return edit
+  }
+  if (Object.values(edit.changeAnnotations ?? {}).some(annotation => annotation.needsConfirmation ?? false)) {
+    throw new ResponseError(LSPErrorCodes.RequestFailed, 'The edit needs a confirmation the client is not able to ask for')
+  }
+  const changes: Record<string, TextEdit[]> = { ...edit.changes }
+  for (const documentEdit of edit.documentChanges) {
+    const uri = documentEdit.textDocument.uri
+    changes[uri] = [...(changes[uri] ?? []), ...documentEdit.edits.map(textEdit => ({ range: textEdit.range, newText: textEdit.newText }))]
+  }
+  return { changes }
+}
+
+function adaptCodeActions (result: unknown, params: unknown, clientCapabilities: ClientCapabilities): unknown {
+  return (result as (Command | CodeAction)[]).map(action => {
+    try {
+      return adaptCodeAction(action, params, clientCapabilities)
+    } catch (error) {
+      if (!(error instanceof ResponseError)) {
+        throw error
+      }
+      // The other actions remain usable, this one is disabled with the reason
+      const { edit, ...disabledAction } = action as CodeAction
+      return { ...disabledAction, disabled: { reason: error.message } }
+    }
+  })
+}
+
+function adaptCodeAction (result: unknown, params: unknown, clientCapabilities: ClientCapabilities): unknown {
+  const action = result as Command | CodeAction
+  if (!CodeAction.is(action) || action.edit == null) {
+    return action
+  }
+  return { ...action, edit: adaptWorkspaceEditToClient(action.edit, clientCapabilities) }
+}
+
+function flattenDocumentSymbols (uri: string, symbols: DocumentSymbol[], containerName?: string): SymbolInformation[] {
+  return symbols.flatMap(symbol => [{
+    name: symbol.name,
+    kind: symbol.kind,
+    tags: symbol.tags,
+    deprecated: symbol.deprecated,
+    location: { uri, range: symbol.range },
+    containerName
+  }, ...flattenDocumentSymbols(uri, symbol.children ?? [], symbol.name)])
+}
+
+function adaptDocumentSymbols (result: unknown, params: unknown, clientCapabilities: ClientCapabilities): unknown {
+  const symbols = result as DocumentSymbol[] | SymbolInformation[]
+  if ((clientCapabilities.textDocument?.documentSymbol?.hierarchicalDocumentSymbolSupport ?? false) || !symbols.some(DocumentSymbol.is)) {
+    return symbols
+  }
+  return flattenDocumentSymbols((params as DocumentSymbolParams).textDocument.uri, symbols as DocumentSymbol[])
+}
+
+function createLocationLinkAdapter (getLinkSupport: (clientCapabilities: ClientCapabilities) => boolean | undefined): ResponseAdapter {
+  return (result, params, clientCapabilities) => {
+    if (!Array.isArray(result) || (getLinkSupport(clientCapabilities) ?? false)) {
+      return result
+    }
+    return (result as (Location | LocationLink)[]).map(location => {
+      if (Location.is(location)) {
+        return location
+      }
+      return { uri: location.targetUri, range: location.targetSelectionRange }
+    })
+  }
+}
+
+export const defaultResponseAdapters: Record<string, ResponseAdapter> = {
+  [CompletionRequest.method]: adaptCompletion,
+  [CompletionResolveRequest.method]: (result, params, clientCapabilities) => adaptCompletionItem(result as CompletionItem, clientCapabilities),
+  [HoverRequest.method]: adaptHover,
+  [RenameRequest.method]: (result, params, clientCapabilities) => adaptWorkspaceEditToClient(result as WorkspaceEdit, clientCapabilities),
+  [CodeActionRequest.method]: adaptCodeActions,
+  [CodeActionResolveRequest.method]: adaptCodeAction,
+  [DocumentSymbolRequest.method]: adaptDocumentSymbols,
+  [DefinitionRequest.method]: createLocationLinkAdapter(clientCapabilities => clientCapabilities.textDocument?.definition?.linkSupport),
+  [DeclarationRequest.method]: createLocationLinkAdapter(clientCapabilities => clientCapabilities.textDocument?.declaration?.linkSupport),
+  [TypeDefinitionRequest.method]: createLocationLinkAdapter(clientCapabilities => clientCapabilities.textDocument?.typeDefinition?.linkSupport),
+  [ImplementationRequest.method]: createLocationLinkAdapter(clientCapabilities => clientCapabilities.textDocument?.implementation?.linkSupport)
+}
+
+/**
+ * @param adapters The adapters by method, they replace the default ones
+ */
+export function adaptResponseToClient (
+  method: string,
+  params: unknown,
+  result: unknown,
+  clientCapabilities: ClientCapabilities,
+  adapters: Partial<Record<string, ResponseAdapter>> = {}
+): unknown {
+  const adapter = adapters[method] ?? defaultResponseAdapters[method]
+  if (result == null || adapter == null) {
+    return result
+  }
+  return adapter(result, params, clientCapabilities)
+}
@@ -0,0 +1,198 @@
+import {
+  Diagnostic, DocumentDiagnosticParams, DocumentDiagnosticReport, DocumentDiagnosticReportKind, FullDocumentDiagnosticReport, PreviousResultId, SemanticTokens, SemanticTokensDelta,
+  SemanticTokensEdit, WorkspaceDiagnosticParams, WorkspaceDiagnosticReport, WorkspaceDiagnosticReportPartialResult, WorkspaceDocumentDiagnosticReport, WorkspaceFullDocumentDiagnosticReport
+} from 'vscode-languageserver-protocol'
+import { Disposable } from 'vscode-jsonrpc'
+import { DocumentUri } from 'vscode-languageserver-textdocument'
+
+interface SemanticTokensResult {
+  resultId: string
+  data: number[]
+}
+
+interface DiagnosticReportResult {
+  resultId: string
+  // The serialized diagnostics, only used to compare them with the next report
+  items: string
+}
+
+/**
+ * @returns A single edit replacing the part of the tokens which changed
+ */
+export function computeSemanticTokensEdits (oldData: number[], newData: number[]): SemanticTokensEdit[] {
+  let start = 0
+  while (start < oldData.length && start < newData.length && oldData[start] === newData[start]) {
+    start++
+  }
+  if (start === oldData.length && start === newData.length) {
+    return []
+  }
+  let suffix = 0
+  while (suffix < oldData.length - start && suffix < newData.length - start && oldData[oldData.length - suffix - 1] === newData[newData.length - suffix - 1]) {
+    suffix++
+  }
+  return [{
+    start,
+    deleteCount: oldData.length - start - suffix,
+    data: newData.slice(start, newData.length - suffix)
+  }]
+}
+
+/**
+ * The server result ids are replaced when another client sends a request, so they can't be used by the clients
+ * Only full results are requested from the server, the last result sent to a client is kept to compute its incremental results
+ * The result ids given to the client are only known by this tracker
+ */
+export class ClientResultTracker implements Disposable {
+  private lastResultId = 0
+  private semanticTokens = new Map<DocumentUri, SemanticTokensResult>()
+  // By document then by diagnostic provider identifier
+  private diagnosticReports = new Map<DocumentUri, Map<string | undefined, DiagnosticReportResult>>()
+
+  private createResultId (): string {
+    return `${++this.lastResultId}`
+  }
+
+  public adaptSemanticTokens (uri: DocumentUri, tokens: SemanticTokens): SemanticTokens {
+    const resultId = this.createResultId()
+    this.semanticTokens.set(uri, { resultId, data: tokens.data })
+    return { resultId, data: tokens.data }
+  }
+
+  /**
+   * @param tokens The full tokens returned by the server
+   * @returns The delta from the previous tokens sent to the client, or the full tokens if they are unknown
+   */
+  public adaptSemanticTokensDelta (uri: DocumentUri, previousResultId: string, tokens: SemanticTokens): SemanticTokens | SemanticTokensDelta {
+    const previous = this.semanticTokens.get(uri)
+    if (previous == null || previous.resultId !== previousResultId) {
+      return this.adaptSemanticTokens(uri, tokens)
+    }
+    const resultId = this.createResultId()
+    this.semanticTokens.set(uri, { resultId, data: tokens.data })
+    return {
+      resultId,
+      edits: computeSemanticTokensEdits(previous.data, tokens.data)
+    }
+  }
+
+  /**
+   * @param previousResultId The result id the client has for this document, if any
+   * @returns An unchanged report if the client already has the same diagnostics, the full report otherwise
+   */
+  private adaptFullDiagnosticReport (identifier: string | undefined, uri: DocumentUri, previousResultId: string | undefined, items: Diagnostic[]): FullDocumentDiagnosticReport | { kind: typeof DocumentDiagnosticReportKind.Unchanged, resultId: string } {
+    let documentReports = this.diagnosticReports.get(uri)
+    if (documentReports == null) {
+      documentReports = new Map()
+      this.diagnosticReports.set(uri, documentReports)
+    }
+    const serializedItems = JSON.stringify(items)
+    const previous = documentReports.get(identifier)
+    if (previous != null && previous.resultId === previousResultId && previous.items === serializedItems) {
+      return { kind: DocumentDiagnosticReportKind.Unchanged, resultId: previous.resultId }
+    }
+    const resultId = this.createResultId()
+    documentReports.set(identifier, { resultId, items: serializedItems })
+    return { kind: DocumentDiagnosticReportKind.Full, resultId, items }
+  }
+
+  public adaptDocumentDiagnosticReport (params: DocumentDiagnosticParams, report: DocumentDiagnosticReport): DocumentDiagnosticReport {
+    if (report.kind !== DocumentDiagnosticReportKind.Full) {
+      // The server can't answer unchanged since it never receives any previous result id
+      return report
+    }
+    const relatedDocuments = report.relatedDocuments != null
+      ? Object.fromEntries(Object.entries(report.relatedDocuments).map(([uri, relatedReport]) => {
+        // The client doesn't send the result ids of the related documents, it needs the full reports
+        return [uri, relatedReport.kind === DocumentDiagnosticReportKind.Full ? this.adaptFullDiagnosticReport(params.identifier, uri, undefined, relatedReport.items) : relatedReport]
+      }))
+      : undefined
+    return {
+      ...this.adaptFullDiagnosticReport(params.identifier, params.textDocument.uri, params.previousResultId, report.items),
+      relatedDocuments
+    }
+  }
+
+  public adaptWorkspaceDiagnosticReport<T extends WorkspaceDiagnosticReport | WorkspaceDiagnosticReportPartialResult> (params: WorkspaceDiagnosticParams, report: T): T {
+    const previousResultIds = new Map(params.previousResultIds.map(({ uri, value }: PreviousResultId) => [uri, value]))
+    return {
+      ...report,
+      items: report.items.map((item): WorkspaceDocumentDiagnosticReport => {
+        if (item.kind !== DocumentDiagnosticReportKind.Full) {
+          return item
+        }
+        return {
+          ...this.adaptFullDiagnosticReport(params.identifier, item.uri, previousResultIds.get(item.uri), item.items),
+          uri: item.uri,
+          version: item.version
+        }
+      })
+    }
+  }
+
+  /**
+   * The client forgets its results when it closes the document, it won't send their result ids again
+   */
+  public deleteDocument (uri: DocumentUri): void {
+    this.semanticTokens.delete(uri)
+    this.diagnosticReports.delete(uri)
+  }
+
+  public dispose (): void {
+    this.semanticTokens.clear()
+    this.diagnosticReports.clear()
+  }
+}
+
+/**
+ * The servers usually keep the workspace diagnostic requests pending until something changes, so they need to receive the result ids of the reports the proxy already has
+ * The last full report of each document is kept, whatever the client which requested it, so the unchanged reports of the server can be expanded
+ */
+export class WorkspaceDiagnosticBaseline {
+  private reports = new Map<string | undefined, Map<DocumentUri, WorkspaceFullDocumentDiagnosticReport>>()
+
+  public getPreviousResultIds (identifier: string | undefined): PreviousResultId[] {
+    return Array.from(this.reports.get(identifier)?.values() ?? [])
+      .filter(report => report.resultId != null)
+      .map(report => ({ uri: report.uri, value: report.resultId! }))
+  }
+
+  /**
+   * @returns The report where the unchanged server reports are replaced by the full reports
+   */
+  public resolve<T extends WorkspaceDiagnosticReport | WorkspaceDiagnosticReportPartialResult> (identifier: string | undefined, report: T): T {
+    let reports = this.reports.get(identifier)
+    if (reports == null) {
+      reports = new Map()
+      this.reports.set(identifier, reports)
+    }
+    const identifierReports = reports
+    return {
+      ...report,
+      items: report.items.map(item => {
+        if (item.kind === DocumentDiagnosticReportKind.Full) {
+          identifierReports.set(item.uri, item)
+          return item
+        }
+        const fullReport = identifierReports.get(item.uri)
+        return fullReport != null ? { ...fullReport, version: item.version } : item
+      })
+    }
+  }
+
+  /**
+   * The server will send the full report of the document next time
+   */
+  public deleteDocument (uri: DocumentUri): void {
+    for (const reports of this.reports.values()) {
+      reports.delete(uri)
+    }
+  }
+
+  /**
+   * The result ids of a previous server instance are meaningless for the new one
+   */
+  public reset (): void {
+    this.reports.clear()
+  }
+}
@@ -0,0 +1,203 @@
+import * as rpc from 'vscode-jsonrpc'
+import { CancellationToken, CancellationTokenSource } from 'vscode-jsonrpc'
+import { ExecuteCommandRequest, HoverRequest, LSPErrorCodes, WorkspaceSymbolRequest } from 'vscode-languageserver-protocol'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { ConnectionRequestCache, createAsyncRequestCache, createMemoizedConnection, createSharedMemoizedConnection, MemoryRequestCache, RequestCacheIndex } from '../tools/cache'
+
+function createMapCache (): ConnectionRequestCache {
+  const map = new Map<string, unknown>()
+  return {
+    get: key => map.get(key) ?? null,
+    set: (key, value) => map.set(key, value),
+    delete: key => map.delete(key),
+    reset: () => map.clear()
+  }
+}
+
+function createFakeConnection () {
+  const sentRequests: unknown[] = []
+  const connection = {
+    sendRequest: async (type: unknown, params: unknown) => {
+      sentRequests.push(params)
+      return sentRequests.length
+    }
+  } as unknown as rpc.MessageConnection
+  return { connection, sentRequests }
+}
+
+function hover (uri: string, workDoneToken?: string) {
+  return { textDocument: { uri }, position: { line: 0, character: 0 }, workDoneToken }
+}
+
+describe('Memoized connection', () => {
+  test('Ignore the progress tokens', async () => {
+    const { connection, sentRequests } = createFakeConnection()
+    const cache = createMapCache()
+    const memoizedConnection = createMemoizedConnection(connection, cache, new RequestCacheIndex(cache))
+    expect(await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a', 'token-1'))).toBe(1)
+    expect(await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a', 'token-2'))).toBe(1)
+    expect(sentRequests).toHaveLength(1)
+  })
+
+  test('Only invalidate the entries of the changed document', async () => {
+    const { connection, sentRequests } = createFakeConnection()
+    const cache = createMapCache()
+    const cacheIndex = new RequestCacheIndex(cache)
+    const memoizedConnection = createMemoizedConnection(connection, cache, cacheIndex)
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'))
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///b'))
+    await memoizedConnection.sendRequest(WorkspaceSymbolRequest.type, { query: 'test' })
+    cacheIndex.invalidateDocument('file:///a')
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'))
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///b'))
+    await memoizedConnection.sendRequest(WorkspaceSymbolRequest.type, { query: 'test' })
+    expect(sentRequests).toEqual([hover('file:///a'), hover('file:///b'), { query: 'test' }, hover('file:///a'), { query: 'test' }])
+  })
+
+  test('Forget the entries evicted by the cache', async () => {
+    const { connection } = createFakeConnection()
+    const cache = new MemoryRequestCache({ maxEntries: 2 })
+    const cacheIndex = new RequestCacheIndex(cache)
+    const memoizedConnection = createMemoizedConnection(connection, cache, cacheIndex)
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'))
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///b'))
+    await memoizedConnection.sendRequest(WorkspaceSymbolRequest.type, { query: 'test' })
+    await memoizedConnection.sendRequest(HoverRequest.type, hover('file:///c'))
+    expect(cacheIndex.getSize()).toBe(2)
+
+    cacheIndex.invalidateDocument('file:///c')
+    expect(cacheIndex.getSize()).toBe(0)
+  })
+})
+
+describe('Shared request cancellation', () => {
+  function createPendingConnection () {
+    const serverTokens: CancellationToken[] = []
+    let resolveRequest: (result: string) => void = () => {}
+    const connection = {
+      sendRequest: async (type: unknown, params: unknown, token: CancellationToken) => {
+        serverTokens.push(token)
+        return new Promise(resolve => {
+          resolveRequest = resolve
+        })
+      }
+    } as unknown as rpc.MessageConnection
+    return { connection, serverTokens, resolve: (result: string) => resolveRequest(result) }
+  }
+
+  test('Only the cancelled client gets an error', async () => {
+    const { connection, serverTokens, resolve } = createPendingConnection()
+    const cache = new MemoryRequestCache()
+    const memoizedConnection = createMemoizedConnection(connection, cache, new RequestCacheIndex(cache))
+    const firstClient = new CancellationTokenSource()
+    const secondClient = new CancellationTokenSource()
+    const firstResult = memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'), firstClient.token)
+    const secondResult = memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'), secondClient.token)
+    firstClient.cancel()
+    await expect(firstResult).rejects.toMatchObject({ code: LSPErrorCodes.RequestCancelled })
+    expect(serverTokens).toHaveLength(1)
+    expect(serverTokens[0]!.isCancellationRequested).toBe(false)
+    resolve('result')
+    expect(await secondResult).toBe('result')
+  })
+
+  test('Cancel the server request when every client cancelled it', async () => {
+    const { connection, serverTokens } = createPendingConnection()
+    const cache = new MemoryRequestCache()
+    const memoizedConnection = createMemoizedConnection(connection, cache, new RequestCacheIndex(cache))
+    const clients = [new CancellationTokenSource(), new CancellationTokenSource()]
+    const results = clients.map(client => memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'), client.token))
+    for (const client of clients) {
+      client.cancel()
+    }
+    await Promise.all(results.map(result => expect(result).rejects.toMatchObject({ code: LSPErrorCodes.RequestCancelled })))
+    expect(serverTokens[0]!.isCancellationRequested).toBe(true)
+
+    // The cancelled request isn't shared with the next clients
+    void memoizedConnection.sendRequest(HoverRequest.type, hover('file:///a'), new CancellationTokenSource().token)
+    expect(serverTokens).toHaveLength(2)
+  })
+})
+
+describe('Memory request cache', () => {
+  test('Evict the least recently used entries', async () => {
+    const cache = new MemoryRequestCache({ maxEntries: 2 })
+    cache.set('a', 1)
+    cache.set('b', 2)
+    expect(cache.get('a')).toBe(1)
+    cache.set('c', 3)
+    expect(cache.get('b')).toBeNull()
+    expect(cache.get('a')).toBe(1)
+    expect(cache.get('c')).toBe(3)
+    expect(cache.getStats()).toEqual({ hits: 3, misses: 1, evictions: 1, invalidations: 0, size: 2 })
+  })
+
+  test('Evict the expired entries', async () => {
+    const cache = new MemoryRequestCache({ maxAge: 10 })
+    cache.set('a', 1)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(cache.get('a')).toBeNull()
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 1, evictions: 1, invalidations: 0, size: 0 })
+  })
+
+  test('Remove the failed requests', async () => {
+    const cache = new MemoryRequestCache()
+    const promise = Promise.reject(new Error('Request cancelled'))
+    cache.set('a', promise)
+    await expect(promise).rejects.toThrow()
+    expect(cache.get('a')).toBeNull()
+  })
+
+  test('Never cache the commands', async () => {
+    const { connection, sentRequests } = createFakeConnection()
+    const cache = new MemoryRequestCache()
+    const memoizedConnection = createMemoizedConnection(connection, cache, new RequestCacheIndex(cache))
+    await memoizedConnection.sendRequest(ExecuteCommandRequest.type, { command: 'test' })
+    await memoizedConnection.sendRequest(ExecuteCommandRequest.type, { command: 'test' })
+    expect(sentRequests).toHaveLength(2)
+    expect(cache.isCacheable(HoverRequest.method)).toBe(true)
+    expect(new MemoryRequestCache({ excludedMethods: [HoverRequest.method] }).isCacheable(HoverRequest.method)).toBe(false)
+  })
+})
+
+describe('Shared memoized connection', () => {
+  test('Share the results between processes having the same document content', async () => {
+    const cache = createAsyncRequestCache(new MemoryRequestCache())
+    const firstProcess = createFakeConnection()
+    const secondProcess = createFakeConnection()
+    const firstDocument = TextDocument.create('file:///lib.ts', 'typescript', 1, 'const a = 1')
+    const secondDocument = TextDocument.create('file:///lib.ts', 'typescript', 3, 'const a = 1')
+    const firstConnection = createSharedMemoizedConnection(firstProcess.connection, cache, () => firstDocument, () => 'environment')
+    const secondConnection = createSharedMemoizedConnection(secondProcess.connection, cache, () => secondDocument, () => 'environment')
+
+    expect(await firstConnection.sendRequest(HoverRequest.type, hover('file:///lib.ts'))).toBe(1)
+    expect(await secondConnection.sendRequest(HoverRequest.type, hover('file:///lib.ts'))).toBe(1)
+    expect(secondProcess.sentRequests).toHaveLength(0)
+
+    TextDocument.update(secondDocument, [{ text: 'const a = 2' }], 4)
+    expect(await secondConnection.sendRequest(HoverRequest.type, hover('file:///lib.ts'))).toBe(1)
+    expect(secondProcess.sentRequests).toHaveLength(1)
+
+    // Workspace-wide requests depend on files the process doesn't know about
+    await firstConnection.sendRequest(WorkspaceSymbolRequest.type, { query: 'test' })
+    await secondConnection.sendRequest(WorkspaceSymbolRequest.type, { query: 'test' })
+    expect(secondProcess.sentRequests).toHaveLength(2)
+  })
+  test('Do not share the results between servers with a different environment', async () => {
+    const cache = createAsyncRequestCache(new MemoryRequestCache())
+    const firstProcess = createFakeConnection()
+    const secondProcess = createFakeConnection()
+    const document = TextDocument.create('file:///lib.ts', 'typescript', 1, 'const a = 1')
+    let secondConfiguration = { strict: true }
+    const firstConnection = createSharedMemoizedConnection(firstProcess.connection, cache, () => document, () => ({ strict: false }))
+    const secondConnection = createSharedMemoizedConnection(secondProcess.connection, cache, () => document, () => secondConfiguration)
+
+    await firstConnection.sendRequest(HoverRequest.type, hover('file:///lib.ts'))
+    await secondConnection.sendRequest(HoverRequest.type, hover('file:///lib.ts'))
+    expect(secondProcess.sentRequests).toHaveLength(1)
+
+    secondConfiguration = { strict: false }
+    await secondConnection.sendRequest(HoverRequest.type, hover('file:///lib.ts'))
+    expect(secondProcess.sentRequests).toHaveLength(1)
+  })
+})
@@ -0,0 +1,43 @@
+import { ExecuteCommandRequest, HoverRequest, Registration } from 'vscode-languageserver-protocol'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { isFoldedRequest, transformServerCapabilities, WatchableServerCapabilities } from '../capabilities'
+
+const registrations: Registration[] = [{
+  id: 'hover',
+  method: HoverRequest.method,
+  registerOptions: { documentSelector: [{ language: 'json' }] }
+}, {
+  id: 'command-1',
+  method: ExecuteCommandRequest.type.method,
+  registerOptions: { commands: ['a', 'b'] }
+}, {
+  id: 'command-2',
+  method: ExecuteCommandRequest.type.method,
+  registerOptions: { commands: ['b', 'c'] }
+}]
+
+describe('Dynamic registrations folding', () => {
+  test('Fold the registrations the client does not support', () => {
+    const capabilities = transformServerCapabilities({}, false, registrations, {
+      workspace: { executeCommand: { dynamicRegistration: true } }
+    })
+    expect(capabilities.hoverProvider).toBe(true)
+    expect(capabilities.executeCommandProvider).toBeUndefined()
+
+    expect(transformServerCapabilities({}, false, registrations, {}).executeCommandProvider).toEqual({ commands: ['a', 'b', 'c'] })
+    expect(transformServerCapabilities({ hoverProvider: { workDoneProgress: true } }, false, registrations, {}).hoverProvider).toEqual({ workDoneProgress: true })
+  })
+
+  test('Reject the requests of the unregistered features', () => {
+    const serverCapabilities = new WatchableServerCapabilities({})
+    serverCapabilities.handleRegistrationRequest({ registrations })
+    const jsonDocument = TextDocument.create('file:///a.json', 'json', 1, '{}')
+    const textDocument = TextDocument.create('file:///a.txt', 'plaintext', 1, '')
+    expect(isFoldedRequest({}, HoverRequest.method)).toBe(true)
+    expect(serverCapabilities.isRequestAvailable(HoverRequest.method, jsonDocument)).toBe(true)
+    expect(serverCapabilities.isRequestAvailable(HoverRequest.method, textDocument)).toBe(false)
+
+    serverCapabilities.handleUnregistrationRequest({ unregisterations: [{ id: 'hover', method: HoverRequest.method }] })
+    expect(serverCapabilities.isRequestAvailable(HoverRequest.method, jsonDocument)).toBe(false)
+  })
+})
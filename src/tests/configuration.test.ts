@@ -0,0 +1,111 @@
+import { DidChangeConfigurationNotification, DidChangeConfigurationParams, Emitter, Hover, HoverRequest, MarkupKind } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+import { ConfigurationConflictResolution, ConfigurationMerger } from '../configuration'
+import { MemoryRequestCache } from '../tools/cache'
+
+const hostConfiguration: Record<string, unknown> = {
+  java: {
+    home: '/usr/lib/jvm',
+    format: {
+      enabled: true
+    }
+  }
+}
+
+describe('ConfigurationMerger', () => {
+  test('Host locked', async () => {
+    const merger = new ConfigurationMerger<string>({
+      clientSections: ['java.format', 'java.completion']
+    }, async section => hostConfiguration[section])
+    merger.setClientSettings('a', { java: { format: { enabled: false }, completion: { enabled: false }, home: '/tmp' } })
+    expect(await merger.getConfiguration('java')).toEqual({
+      home: '/usr/lib/jvm',
+      format: { enabled: true },
+      completion: { enabled: false }
+    })
+    expect(hostConfiguration.java).not.toHaveProperty('completion')
+  })
+
+  test('Last writer', async () => {
+    const merger = new ConfigurationMerger<string>({
+      clientSections: ['java.format'],
+      conflictResolution: ConfigurationConflictResolution.LastWriter
+    }, async section => hostConfiguration[section])
+    merger.setClientSettings('a', { java: { format: { enabled: false } } })
+    merger.setClientSettings('b', { java: { format: { enabled: true, comments: false } } })
+    expect(await merger.getConfiguration('java.format')).toEqual({ enabled: true, comments: false })
+    merger.deleteClient('b')
+    expect(await merger.getConfiguration('java.format')).toEqual({ enabled: false })
+  })
+
+  test('Document owner', async () => {
+    const merger = new ConfigurationMerger<string>({
+      clientSections: ['java.format'],
+      conflictResolution: ConfigurationConflictResolution.DocumentOwner
+    }, async section => hostConfiguration[section])
+    merger.setClientSettings('a', { java: { format: { enabled: false } } })
+    merger.setClientSettings('b', { java: { format: { enabled: true } } })
+    expect(await merger.getConfiguration('java.format', undefined, ['a', 'b'])).toEqual({ enabled: false })
+    expect(await merger.getConfiguration('java.format')).toEqual({ enabled: true })
+  })
+})
+
+describe('Configuration synchronization', () => {
+  test('Send the new configuration when the host configuration changes', async () => {
+    const onConfigurationChanged = new Emitter<void>()
+    let formatEnabled = true
+    const { languageClient, server } = createTestLanguageClient({
+      synchronizeConfigurationSections: ['java.format'],
+      getConfiguration: async () => {
+        await settle(5)
+        return { enabled: formatEnabled }
+      },
+      onConfigurationChanged: onConfigurationChanged.event
+    })
+    const client = await FakeClient.connect(languageClient)
+    await settle()
+    expect(server().getNotifications(DidChangeConfigurationNotification.type.method)).toEqual<DidChangeConfigurationParams[]>([
+      { settings: { java: { format: { enabled: true } } } }
+    ])
+
+    formatEnabled = false
+    onConfigurationChanged.fire()
+    await settle()
+    expect(server().getNotifications(DidChangeConfigurationNotification.type.method)).toEqual<DidChangeConfigurationParams[]>([
+      { settings: { java: { format: { enabled: true } } } },
+      { settings: { java: { format: { enabled: false } } } }
+    ])
+
+    // The configuration is sent again even if it didn't change
+    await languageClient.updateConfiguration()
+    await settle()
+    expect(server().getNotifications(DidChangeConfigurationNotification.type.method)).toHaveLength(3)
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Forget the cached results when the configuration is updated', async () => {
+    const { languageClient, server } = createTestLanguageClient({
+      createCache: () => new MemoryRequestCache(),
+      getConfiguration: () => ({ enabled: true })
+    })
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'foo()')
+    await settle()
+    let hoverCount = 0
+    server().connection.onRequest(HoverRequest.type, (): Hover => ({ contents: { kind: MarkupKind.PlainText, value: `hover ${++hoverCount}` } }))
+    const hover = () => client.connection.sendRequest(HoverRequest.type, { textDocument: { uri: 'file:///a' }, position: { line: 0, character: 0 } })
+
+    expect(await hover()).toEqual({ contents: { kind: 'plaintext', value: 'hover 1' } })
+    expect(await hover()).toEqual({ contents: { kind: 'plaintext', value: 'hover 1' } })
+    await languageClient.updateConfiguration()
+    await settle()
+    // Without synchronized sections, the server is told to pull the configuration again
+    expect(server().getNotifications(DidChangeConfigurationNotification.type.method)).toEqual<DidChangeConfigurationParams[]>([{ settings: null }])
+    expect(await hover()).toEqual({ contents: { kind: 'plaintext', value: 'hover 2' } })
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+})
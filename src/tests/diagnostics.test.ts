@@ -0,0 +1,91 @@
+import { Diagnostic, PublishDiagnosticsNotification, PublishDiagnosticsParams } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+
+function diagnostic (line: number, message: string): Diagnostic {
+  return { range: { start: { line, character: 0 }, end: { line, character: 5 } }, message }
+}
+
+const insertLine = { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, text: 'added\n' }
+
+describe('Diagnostics', () => {
+  test('Move the diagnostics through the client changes the server did not receive yet', async () => {
+    const { languageClient, server } = createTestLanguageClient({ documentSynchronizationPolicy: { debounceDelay: 200 } })
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'line0\nline1\nline2', 5)
+    await settle()
+    const serverVersion = server().documents.get('file:///a')!.version
+
+    // The change is still waiting in the debounce when the diagnostics are published
+    await client.changeDocument('file:///a', [insertLine])
+    await settle()
+    await server().publishDiagnostics({ uri: 'file:///a', version: serverVersion, diagnostics: [diagnostic(1, 'first'), diagnostic(2, 'second')] })
+    await settle()
+    expect(server().documents.get('file:///a')!.version).toBe(serverVersion)
+    expect(client.getNotifications(PublishDiagnosticsNotification.type.method)).toEqual<PublishDiagnosticsParams[]>([{
+      uri: 'file:///a',
+      version: 6,
+      diagnostics: [diagnostic(2, 'first'), diagnostic(3, 'second')]
+    }])
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Move the stale diagnostics through the changes sent to the server since', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'line0\nline1\nline2', 5)
+    await settle()
+    const serverVersion = server().documents.get('file:///a')!.version
+
+    await client.changeDocument('file:///a', [insertLine])
+    await client.changeDocument('file:///a', [{ range: { start: { line: 2, character: 0 }, end: { line: 2, character: 5 } }, text: 'edited' }])
+    await settle()
+    expect(server().documents.get('file:///a')!.getText()).toBe('added\nline0\nedited\nline2')
+
+    // The diagnostics were computed before the changes, the one in the edited line is dropped
+    await server().publishDiagnostics({ uri: 'file:///a', version: serverVersion, diagnostics: [diagnostic(0, 'first'), diagnostic(1, 'second'), diagnostic(2, 'third')] })
+    await settle()
+    expect(client.getNotifications(PublishDiagnosticsNotification.type.method)).toEqual<PublishDiagnosticsParams[]>([{
+      uri: 'file:///a',
+      version: 7,
+      diagnostics: [diagnostic(1, 'first'), diagnostic(3, 'third')]
+    }])
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Use the version of the document of each client', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient)
+    const secondClient = await FakeClient.connect(languageClient)
+    await firstClient.openDocument('file:///a', 'line0\nline1', 3)
+    await secondClient.openDocument('file:///a', 'line0\nline1', 12)
+    await settle()
+
+    await server().publishDiagnostics({ uri: 'file:///a', version: server().documents.get('file:///a')!.version, diagnostics: [diagnostic(1, 'first')] })
+    await settle()
+    expect(firstClient.getNotifications(PublishDiagnosticsNotification.type.method)).toEqual<PublishDiagnosticsParams[]>([
+      { uri: 'file:///a', version: 3, diagnostics: [diagnostic(1, 'first')] }
+    ])
+    expect(secondClient.getNotifications(PublishDiagnosticsNotification.type.method)).toEqual<PublishDiagnosticsParams[]>([
+      { uri: 'file:///a', version: 12, diagnostics: [diagnostic(1, 'first')] }
+    ])
+
+    // The last diagnostics are replayed on the current content of the new clients
+    await secondClient.changeDocument('file:///a', [insertLine])
+    await settle()
+    const lateClient = await FakeClient.connect(languageClient)
+    await lateClient.openDocument('file:///a', 'added\nline0\nline1', 1)
+    await settle()
+    expect(lateClient.getNotifications(PublishDiagnosticsNotification.type.method)).toEqual<PublishDiagnosticsParams[]>([
+      { uri: 'file:///a', version: 1, diagnostics: [diagnostic(2, 'first')] }
+    ])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    lateClient.disconnect()
+    await languageClient.dispose()
+  })
+})
@@ -0,0 +1,85 @@
+import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument'
+import winston from 'winston'
+import { Worker } from 'worker_threads'
+import { settle } from './fake-language-server'
+import { DiffWorkerPool } from '../tools/diff-worker-pool'
+
+// The sources can't be loaded in a worker, the workers replace the whole document instead of computing the diff
+const replacingWorker = `
+const { parentPort } = require('worker_threads')
+parentPort.on('message', ({ newText }) => parentPort.postMessage({ changes: [{ text: newText }] }))
+parentPort.postMessage({ ready: true })
+`
+const crashingWorker = `
+const { parentPort } = require('worker_threads')
+parentPort.on('message', () => process.exit(1))
+parentPort.postMessage({ ready: true })
+`
+const failingWorker = "throw new Error('Unable to load the diff module')"
+
+function createWorkerFactory (source: string) {
+  return () => new Worker(source, { eval: true })
+}
+
+function applyDiff (oldText: string, newText: string, changes: TextDocumentContentChangeEvent[]) {
+  expect(TextDocument.update(TextDocument.create('file:///test', 'plaintext', 1, oldText), changes, 2).getText()).toBe(newText)
+}
+
+function createLogger () {
+  return { warn: jest.fn() }
+}
+
+describe('Diff worker pool', () => {
+  const oldText = 'const a = 1\n'.repeat(100)
+  const newText = oldText.replace('a = 1', 'b = 2')
+
+  test('Compute the diffs of the large documents in the workers', async () => {
+    const logger = createLogger()
+    const pool = new DiffWorkerPool({ size: 2, minDocumentLength: 1000, createWorker: createWorkerFactory(replacingWorker), logger: logger as unknown as winston.Logger })
+
+    const smallDiff = await pool.lspDiff('const a = 1', 'const b = 1')
+    applyDiff('const a = 1', 'const b = 1', smallDiff)
+    expect(smallDiff).not.toEqual([{ text: 'const b = 1' }])
+    expect(pool.getWorkerCount()).toBe(0)
+
+    const results = await Promise.all([pool.lspDiff(oldText, newText), pool.lspDiff(oldText, newText), pool.lspDiff(newText, oldText)])
+    expect(results).toEqual([[{ text: newText }], [{ text: newText }], [{ text: oldText }]])
+    expect(pool.getWorkerCount()).toBe(2)
+    expect(logger.warn).not.toHaveBeenCalled()
+
+    pool.dispose()
+    await settle(200)
+    expect(pool.getWorkerCount()).toBe(0)
+    await expect(pool.lspDiff(oldText, newText)).rejects.toThrow()
+  })
+
+  test('Compute the diff on the main thread when a worker crashes', async () => {
+    const logger = createLogger()
+    const pool = new DiffWorkerPool({ size: 1, minDocumentLength: 0, createWorker: createWorkerFactory(crashingWorker), logger: logger as unknown as winston.Logger })
+    applyDiff(oldText, newText, await pool.lspDiff(oldText, newText))
+    expect(logger.warn).toHaveBeenCalledWith('The diff worker crashed, computing the diff on the main thread', expect.anything())
+    pool.dispose()
+  })
+
+  test('Compute the diffs on the main thread when the workers are unable to start', async () => {
+    const logger = createLogger()
+    const pool = new DiffWorkerPool({ size: 2, minDocumentLength: 0, createWorker: createWorkerFactory(failingWorker), logger: logger as unknown as winston.Logger })
+    const results = await Promise.all([pool.lspDiff(oldText, newText), pool.lspDiff(newText, oldText)])
+    applyDiff(oldText, newText, results[0]!)
+    applyDiff(newText, oldText, results[1]!)
+    applyDiff(oldText, newText, await pool.lspDiff(oldText, newText))
+    expect(logger.warn).toHaveBeenCalledTimes(1)
+    expect(logger.warn).toHaveBeenCalledWith('Unable to start the diff workers, computing the diffs on the main thread', expect.anything())
+    pool.dispose()
+  })
+
+  test('Compute the diffs on the main thread when the worker script is not found', async () => {
+    // The sources are not next to the compiled worker script
+    const logger = createLogger()
+    const pool = new DiffWorkerPool({ size: 1, minDocumentLength: 0, logger: logger as unknown as winston.Logger })
+    applyDiff(oldText, newText, await pool.lspDiff(oldText, newText))
+    expect(logger.warn).toHaveBeenCalledWith('Unable to start the diff workers, computing the diffs on the main thread', expect.anything())
+    expect(pool.getWorkerCount()).toBe(0)
+    pool.dispose()
+  })
+})
@@ -0,0 +1,65 @@
+import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument'
+import { performance } from 'perf_hooks'
+import { lspDiff } from '../tools/diff'
+
+function applyDiff (code: string, diff: TextDocumentContentChangeEvent[]) {
+  const document = TextDocument.create('file:///test.txt', 'plaintext', 1, code)
+  const newDocument = TextDocument.update(document, diff, 2)
+  return newDocument.getText()
+}
+
+function generateCode (lineCount: number, seed: number) {
+  const lines: string[] = []
+  for (let i = 0; i < lineCount; i++) {
+    lines.push(`  public static int compute${(i * seed) % 997}(int value) { return value * ${i % 13} + ${seed}; }`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Checks the median duration of the diff stays under the budget
+ */
+function benchmark (before: string, after: string, maxMedianDuration: number, iterations: number = 5) {
+  const durations: number[] = []
+  let diff: TextDocumentContentChangeEvent[] = []
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now()
+    diff = lspDiff(before, after)
+    durations.push(performance.now() - start)
+  }
+  durations.sort((a, b) => a - b)
+  expect(applyDiff(before, diff)).toBe(after)
+  expect(durations[Math.floor(iterations / 2)]).toBeLessThan(maxMedianDuration)
+}
+
+// Run with `npm run benchmark`
+describe('LspDiff benchmark', () => {
+  test('Simple change', async () => {
+    benchmark('public static void main(String a)', 'public static void main(String b)', 1, 100)
+  })
+
+  test('Multiple changes', async () => {
+    benchmark('public static void main(String toto)', 'private void final compute(String tata)', 1, 100)
+  })
+
+  // About 2MB
+  const bigCode = generateCode(25_000, 7)
+  const bigLines = bigCode.split('\n')
+
+  test('Big file, single character change', async () => {
+    benchmark(bigCode, bigCode.replace('compute500', 'compute501'), 200)
+  })
+
+  test('Big file, scattered line changes', async () => {
+    benchmark(bigCode, bigLines.map((line, index) => index % 1000 === 0 ? `// ${line}` : line).join('\n'), 200)
+  })
+
+  test('Big file, pasted block', async () => {
+    const pasted = [...bigLines.slice(0, 12_000), ...generateCode(2_000, 11).split('\n'), ...bigLines.slice(12_000)]
+    benchmark(bigCode, pasted.join('\n'), 200)
+  })
+
+  test('Big file, completely different code', async () => {
+    benchmark(bigCode, generateCode(25_000, 13), 500)
+  })
+})
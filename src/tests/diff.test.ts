@@ -0,0 +1,97 @@
+import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument'
+import { DiffOptions, lspDiff } from '../tools/diff'
+
+/**
+ * Small seeded random generator so the failures can be reproduced
+ */
+function createRandom (seed: number) {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const tokens = ['a', 'b', 'foo', ' ', '\n', '\r\n', '\r']
+
+function generateText (random: () => number, maxLength: number) {
+  let text = ''
+  const length = Math.floor(random() * maxLength)
+  for (let i = 0; i < length; i++) {
+    text += tokens[Math.floor(random() * tokens.length)]
+  }
+  return text
+}
+
+function mutateText (random: () => number, text: string) {
+  const editCount = 1 + Math.floor(random() * 4)
+  for (let i = 0; i < editCount; i++) {
+    const start = Math.floor(random() * (text.length + 1))
+    const end = Math.min(text.length, start + Math.floor(random() * 6))
+    text = text.slice(0, start) + generateText(random, 4) + text.slice(end)
+  }
+  return text
+}
+
+/**
+ * Applies the changes one by one, checking every position is valid in the document it applies on
+ */
+function applyChanges (code: string, changes: TextDocumentContentChangeEvent[]) {
+  let document = TextDocument.create('file:///test.txt', 'plaintext', 1, code)
+  for (const change of changes) {
+    if ('range' in change) {
+      for (const position of [change.range.start, change.range.end]) {
+        expect(document.positionAt(document.offsetAt(position))).toEqual(position)
+      }
+    }
+    document = TextDocument.update(document, [change], document.version + 1)
+  }
+  return document.getText()
+}
+
+function checkDiffs (seed: number, options?: DiffOptions) {
+  const random = createRandom(seed)
+  for (let i = 0; i < 500; i++) {
+    const before = generateText(random, 40)
+    const after = random() < 0.1 ? generateText(random, 40) : mutateText(random, before)
+    const changes = lspDiff(before, after, options)
+    try {
+      expect(applyChanges(before, changes)).toBe(after)
+    } catch (error) {
+      throw new Error(`Invalid diff between ${JSON.stringify(before)} and ${JSON.stringify(after)}: ${JSON.stringify(changes)}\n${error}`)
+    }
+  }
+}
+
+describe('LspDiff line breaks', () => {
+  test('CRLF document', async () => {
+    const before = 'first line\r\nsecond line\r\nthird line'
+    const after = 'first line\r\nsecond modified line\r\nthird line'
+    const changes = lspDiff(before, after)
+    expect(changes).toEqual([{
+      range: { start: { line: 1, character: 7 }, end: { line: 1, character: 7 } },
+      rangeLength: 0,
+      text: 'modified '
+    }])
+  })
+
+  test('Line break conversion', async () => {
+    const before = 'first line\nsecond line\nthird line'
+    const after = 'first line\r\nsecond line\r\nthird line'
+    expect(applyChanges(before, lspDiff(before, after))).toBe(after)
+    expect(applyChanges(after, lspDiff(after, before))).toBe(before)
+  })
+
+  test('Random mixed line endings', async () => {
+    checkDiffs(1)
+  })
+
+  test('Random mixed line endings without character level refinement', async () => {
+    checkDiffs(2, { maxCharDiffLength: 0 })
+  })
+
+  test('Random mixed line endings without line level diff', async () => {
+    checkDiffs(3, { maxLineDiffCost: 0 })
+  })
+})
@@ -0,0 +1,73 @@
+import { HoverRequest } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+
+function insertText (text: string) {
+  return [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, text }]
+}
+
+describe('Document synchronization', () => {
+  test('Send the changes once the maximum latency is reached even if the client keeps typing', async () => {
+    const { languageClient, server } = createTestLanguageClient({ documentSynchronizationPolicy: { debounceDelay: 100, maxLatency: 50 } })
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'foo()')
+    await settle()
+
+    for (const text of ['a', 'b', 'c', 'd', 'e']) {
+      await client.changeDocument('file:///a', insertText(text))
+      await settle(20)
+    }
+    // The debounce alone would wait for the client to stop typing
+    expect(server().documents.get('file:///a')!.getText()).not.toBe('foo()')
+    await settle(150)
+    expect(server().documents.get('file:///a')!.getText()).toBe('edcbafoo()')
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Send the changes once there are too many of them', async () => {
+    const { languageClient, server } = createTestLanguageClient({ documentSynchronizationPolicy: { debounceDelay: 1000, maxPendingChanges: 3 } })
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'foo()')
+    await settle()
+
+    await client.changeDocument('file:///a', insertText('a'))
+    await client.changeDocument('file:///a', insertText('b'))
+    await settle()
+    expect(server().documents.get('file:///a')!.getText()).toBe('foo()')
+    await client.changeDocument('file:///a', insertText('c'))
+    await settle()
+    expect(server().documents.get('file:///a')!.getText()).toBe('cbafoo()')
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Send the pending changes of every client on the request documents first', async () => {
+    const { languageClient, server } = createTestLanguageClient({ documentSynchronizationPolicy: { debounceDelay: 1000 } })
+    const firstClient = await FakeClient.connect(languageClient)
+    const secondClient = await FakeClient.connect(languageClient)
+    const otherClient = await FakeClient.connect(languageClient)
+    await firstClient.openDocument('file:///a', 'foo()')
+    await secondClient.openDocument('file:///a', 'foo()')
+    await otherClient.openDocument('file:///b', 'foo()')
+    await settle()
+    const serverTexts: string[] = []
+    server().connection.onRequest(HoverRequest.type, () => {
+      serverTexts.push(server().documents.get('file:///a')!.getText(), server().documents.get('file:///b')!.getText())
+      return null
+    })
+
+    await firstClient.changeDocument('file:///a', insertText('bar'))
+    await otherClient.changeDocument('file:///b', insertText('bar'))
+    await settle()
+    await secondClient.connection.sendRequest(HoverRequest.type, { textDocument: { uri: 'file:///a' }, position: { line: 0, character: 0 } })
+    // The changes of the other documents are still waiting
+    expect(serverTexts).toEqual(['barfoo()', 'foo()'])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    otherClient.disconnect()
+    await languageClient.dispose()
+  })
+})
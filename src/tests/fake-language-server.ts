@@ -0,0 +1,204 @@
+import * as rpc from 'vscode-jsonrpc/node'
+import {
+  ClientCapabilities, DidChangeTextDocumentNotification, DidChangeTextDocumentParams, DidCloseTextDocumentNotification, DidCloseTextDocumentParams,
+  DidOpenTextDocumentNotification, DidOpenTextDocumentParams, InitializedNotification, InitializeParams, InitializeRequest, InitializeResult,
+  ProgressToken, PublishDiagnosticsNotification, PublishDiagnosticsParams, ServerCapabilities, ShutdownRequest, TextDocumentContentChangeEvent, TextDocumentSyncKind,
+  WorkDoneProgress, WorkDoneProgressCreateRequest
+} from 'vscode-languageserver-protocol'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { PassThrough } from 'stream'
+import { LanguageClient } from '../language-client'
+import { bindLanguageClient, EndCause, LanguageClientBindingOptions } from '../language-client-mutualization'
+import { ProgressParams, WorkDoneProgressValue } from '../progress'
+
+/**
+ * Two message connections talking to each other in memory
+ * @returns The connections, and a function closing the underlying streams (like a process dying)
+ */
+export function createMessageConnectionPair (): { left: rpc.MessageConnection, right: rpc.MessageConnection, close: () => void } {
+  const leftToRight = new PassThrough()
+  const rightToLeft = new PassThrough()
+  return {
+    left: rpc.createMessageConnection(new rpc.StreamMessageReader(rightToLeft), new rpc.StreamMessageWriter(leftToRight)),
+    right: rpc.createMessageConnection(new rpc.StreamMessageReader(leftToRight), new rpc.StreamMessageWriter(rightToLeft)),
+    close: () => {
+      leftToRight.end()
+      rightToLeft.end()
+    }
+  }
+}
+
+export interface ReceivedMessage {
+  method: string
+  params: unknown
+}
+
+export const defaultServerCapabilities: ServerCapabilities = {
+  textDocumentSync: TextDocumentSyncKind.Incremental,
+  hoverProvider: true,
+  renameProvider: true,
+  codeActionProvider: true,
+  completionProvider: { resolveProvider: true },
+  referencesProvider: true
+}
+
+/**
+ * A language server keeping a copy of the documents it receives
+ */
+export class FakeLanguageServer {
+  public readonly documents = new Map<string, TextDocument>()
+  public readonly notifications: ReceivedMessage[] = []
+  public initializeParams: InitializeParams | undefined
+
+  constructor (public readonly connection: rpc.MessageConnection, capabilities: ServerCapabilities = defaultServerCapabilities) {
+    connection.onRequest(InitializeRequest.type, (params): InitializeResult => {
+      this.initializeParams = params
+      return { capabilities }
+    })
+    connection.onRequest(ShutdownRequest.type, () => undefined)
+    connection.onNotification((method, params) => {
+      this.notifications.push({ method, params })
+      switch (method) {
+        case DidOpenTextDocumentNotification.method: {
+          const { textDocument } = params as DidOpenTextDocumentParams
+          this.documents.set(textDocument.uri, TextDocument.create(textDocument.uri, textDocument.languageId, textDocument.version, textDocument.text))
+          break
+        }
+        case DidChangeTextDocumentNotification.method: {
+          const { textDocument, contentChanges } = params as DidChangeTextDocumentParams
+          const document = this.documents.get(textDocument.uri)!
+          this.documents.set(textDocument.uri, TextDocument.update(document, contentChanges, textDocument.version))
+          break
+        }
+        case DidCloseTextDocumentNotification.method:
+          this.documents.delete((params as DidCloseTextDocumentParams).textDocument.uri)
+          break
+      }
+    })
+    connection.listen()
+  }
+
+  public getNotifications (method: string): unknown[] {
+    return this.notifications.filter(notification => notification.method === method).map(notification => notification.params)
+  }
+
+  public publishDiagnostics (params: PublishDiagnosticsParams): Promise<void> {
+    return this.connection.sendNotification(PublishDiagnosticsNotification.type, params)
+  }
+}
+
+/**
+ * @returns A connection factory creating fake servers, and the servers created so far
+ */
+export function createFakeServerFactory (capabilities?: ServerCapabilities): { factory: () => rpc.MessageConnection, servers: FakeLanguageServer[], closers: (() => void)[] } {
+  const servers: FakeLanguageServer[] = []
+  const closers: (() => void)[] = []
+  return {
+    factory: () => {
+      const { left, right, close } = createMessageConnectionPair()
+      servers.push(new FakeLanguageServer(right, capabilities))
+      closers.push(close)
+      return left
+    },
+    servers,
+    closers
+  }
+}
+
+/**
+ * A client bound to a language client through the mutualization
+ */
+export class FakeClient {
+  public readonly notifications: ReceivedMessage[] = []
+  public readonly progressTokens: ProgressToken[] = []
+  public readonly progresses: ProgressParams<WorkDoneProgressValue>[] = []
+  private versions = new Map<string, number>()
+
+  private constructor (public readonly connection: rpc.MessageConnection, public readonly binding: Promise<EndCause>, private close: () => void) {
+    connection.onNotification((method, params) => {
+      this.notifications.push({ method, params })
+    })
+    // The progresses may be created while the client is initializing
+    connection.onRequest(WorkDoneProgressCreateRequest.type, ({ token }) => {
+      this.progressTokens.push(token)
+      connection.onProgress(WorkDoneProgress.type, token, value => {
+        this.progresses.push({ token, value })
+      })
+    })
+  }
+
+  public static async connect (
+    languageClient: LanguageClient,
+    capabilities: ClientCapabilities = {},
+    bindingOptions: LanguageClientBindingOptions = {},
+    initializeParams: Partial<InitializeParams> = {}
+  ): Promise<FakeClient> {
+    return await FakeClient.connectWith(connection => bindLanguageClient(languageClient, connection, bindingOptions), capabilities, initializeParams)
+  }
+
+  /**
+   * Connects the client through another binding than the one of a single language client (a pool, shards...)
+   */
+  public static async connectWith (
+    bind: (connection: rpc.MessageConnection) => Promise<EndCause>,
+    capabilities: ClientCapabilities = {},
+    initializeParams: Partial<InitializeParams> = {}
+  ): Promise<FakeClient> {
+    const { left, right, close } = createMessageConnectionPair()
+    const binding = bind(right)
+    binding.catch(() => {})
+    const client = new FakeClient(left, binding, close)
+    left.listen()
+    await left.sendRequest(InitializeRequest.type, { processId: null, rootUri: null, workspaceFolders: null, capabilities, ...initializeParams })
+    await left.sendNotification(InitializedNotification.type, {})
+    return client
+  }
+
+  public async openDocument (uri: string, text: string, version: number = 1): Promise<void> {
+    this.versions.set(uri, version)
+    await this.connection.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri, languageId: 'plaintext', version, text }
+    })
+  }
+
+  public async changeDocument (uri: string, contentChanges: TextDocumentContentChangeEvent[]): Promise<void> {
+    const version = this.versions.get(uri)! + 1
+    this.versions.set(uri, version)
+    await this.connection.sendNotification(DidChangeTextDocumentNotification.type, {
+      textDocument: { uri, version },
+      contentChanges
+    })
+  }
+
+  public async closeDocument (uri: string): Promise<void> {
+    await this.connection.sendNotification(DidCloseTextDocumentNotification.type, { textDocument: { uri } })
+  }
+
+  public getNotifications (method: string): unknown[] {
+    return this.notifications.filter(notification => notification.method === method).map(notification => notification.params)
+  }
+
+  public disconnect (): void {
+    this.connection.dispose()
+    this.close()
+  }
+}
+
+/**
+ * Waits for the messages in flight to be handled
+ */
+export async function settle (duration: number = 20): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, duration))
+}
+
+/**
+ * @returns A language client bound to a new fake server, with a fast document synchronization
+ */
+export function createTestLanguageClient (options: ConstructorParameters<typeof LanguageClient>[1] = {}, capabilities?: ServerCapabilities): { languageClient: LanguageClient, server: () => FakeLanguageServer, servers: FakeLanguageServer[], closers: (() => void)[] } {
+  const { factory, servers, closers } = createFakeServerFactory(capabilities)
+  const languageClient = new LanguageClient(factory, {
+    documentSynchronizationPolicy: { debounceDelay: 5 },
+    ...options
+  })
+  return { languageClient, server: () => servers[servers.length - 1]!, servers, closers }
+}
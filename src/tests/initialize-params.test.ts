@@ -0,0 +1,50 @@
+import { InitializeParams, InitializeRequest } from 'vscode-languageserver-protocol'
+import { createMessageConnectionPair, createTestLanguageClient, FakeClient } from './fake-language-server'
+import { compareInitializeParams, InitializeParamsDifferenceSeverity } from '../initialize-params'
+import { bindLanguageClient, EndCause } from '../language-client-mutualization'
+
+const serverParams: InitializeParams = {
+  processId: 1,
+  rootUri: 'file:///workspace',
+  workspaceFolders: null,
+  capabilities: { general: { positionEncodings: ['utf-16'] } },
+  locale: 'en'
+}
+
+describe('Initialize params compatibility', () => {
+  test('Classify the differences', () => {
+    expect(compareInitializeParams(serverParams, { ...serverParams, processId: 2 })).toEqual([])
+    expect(compareInitializeParams(serverParams, {
+      ...serverParams,
+      rootUri: 'file:///other',
+      capabilities: { general: { positionEncodings: ['utf-8'] } },
+      locale: 'fr'
+    }).map(({ param, severity }) => ({ param, severity }))).toEqual([
+      { param: 'rootUri', severity: InitializeParamsDifferenceSeverity.Fatal },
+      { param: 'positionEncodings', severity: InitializeParamsDifferenceSeverity.Adaptable },
+      { param: 'capabilities', severity: InitializeParamsDifferenceSeverity.Ignorable },
+      { param: 'locale', severity: InitializeParamsDifferenceSeverity.Ignorable }
+    ])
+  })
+
+  test('Use the host policy', () => {
+    expect(compareInitializeParams(serverParams, { ...serverParams, locale: 'fr' }, {
+      locale: InitializeParamsDifferenceSeverity.Fatal
+    })).toMatchObject([{ param: 'locale', serverValue: 'en', clientValue: 'fr', severity: InitializeParamsDifferenceSeverity.Fatal }])
+  })
+
+  test('Reject the incompatible clients', async () => {
+    const { languageClient } = createTestLanguageClient()
+    const client = await FakeClient.connect(languageClient, {}, {}, { rootUri: 'file:///workspace' })
+
+    const { left, right } = createMessageConnectionPair()
+    const binding = bindLanguageClient(languageClient, right)
+    left.listen()
+    await expect(left.sendRequest(InitializeRequest.type, { ...serverParams, rootUri: 'file:///other' })).rejects.toMatchObject({ data: { retry: false } })
+    expect(await binding).toBe(EndCause.Incompatible)
+
+    left.dispose()
+    client.disconnect()
+    await languageClient.dispose()
+  })
+})
@@ -0,0 +1,75 @@
+import { ExitNotification, InitializeParams } from 'vscode-languageserver-protocol'
+import { Emitter } from 'vscode-jsonrpc'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+import { LanguageClient, LanguageClientDisposeReason } from '../language-client'
+import { LanguageClientPool } from '../language-client-pool'
+import { EndCause } from '../language-client-mutualization'
+
+function createFakeLanguageClient () {
+  const onDispose = new Emitter<LanguageClientDisposeReason>()
+  let disposed = false
+  return {
+    onDispose: onDispose.event,
+    isDisposed: () => disposed,
+    dispose: jest.fn(async () => {
+      disposed = true
+      onDispose.fire(LanguageClientDisposeReason.Local)
+    })
+  } as unknown as LanguageClient
+}
+
+function initializeParams (rootUri: string): InitializeParams {
+  return { processId: null, rootUri, workspaceFolders: null, capabilities: {}, clientInfo: { name: rootUri } }
+}
+
+describe('Language client pool', () => {
+  test('Share a language client between the clients with the same key', () => {
+    const pool = new LanguageClientPool({ createLanguageClient: createFakeLanguageClient })
+    const first = pool.acquire(initializeParams('file:///a'))
+    // The client info is not part of the key
+    expect(pool.acquire({ ...initializeParams('file:///a'), clientInfo: { name: 'other' } })).toBe(first)
+    expect(pool.acquire(initializeParams('file:///b'))).not.toBe(first)
+    expect(pool.size).toBe(2)
+    pool.dispose()
+    expect(pool.size).toBe(0)
+  })
+
+  test('Dispose the language clients once they are idle', async () => {
+    const pool = new LanguageClientPool({ createLanguageClient: createFakeLanguageClient, idleTimeout: 50 })
+    const languageClient = pool.acquire(initializeParams('file:///a'))
+    pool.acquire(initializeParams('file:///a'))
+    pool.release(languageClient)
+    pool.release(languageClient)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    // A client joining before the timeout keeps the server alive
+    expect(pool.acquire(initializeParams('file:///a'))).toBe(languageClient)
+    pool.release(languageClient)
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect(languageClient.dispose).toHaveBeenCalledTimes(1)
+    expect(pool.size).toBe(0)
+    expect(pool.acquire(initializeParams('file:///a'))).not.toBe(languageClient)
+  })
+
+  test('Release the language client once the binding ends', async () => {
+    const { languageClient } = createTestLanguageClient()
+    const pool = new LanguageClientPool({ createLanguageClient: () => languageClient, idleTimeout: 50 })
+    const firstClient = await FakeClient.connectWith(connection => pool.bind(connection), {}, { rootUri: 'file:///a' })
+    const secondClient = await FakeClient.connectWith(connection => pool.bind(connection), {}, { rootUri: 'file:///a' })
+    expect(pool.size).toBe(1)
+
+    await firstClient.connection.sendNotification(ExitNotification.type)
+    expect(await firstClient.binding).toBe(EndCause.Client)
+    await settle(100)
+    // The second client still holds a reference
+    expect(languageClient.isDisposed()).toBe(false)
+
+    await secondClient.connection.sendNotification(ExitNotification.type)
+    await secondClient.binding
+    await settle(100)
+    expect(languageClient.isDisposed()).toBe(true)
+    expect(pool.size).toBe(0)
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+  })
+})
@@ -0,0 +1,90 @@
+import * as rpc from 'vscode-jsonrpc'
+import { ExitNotification, InitializeParams } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, FakeLanguageServer, settle } from './fake-language-server'
+import { LanguageClient } from '../language-client'
+import { LanguageClientShards, ShardingStrategy } from '../language-client-shards'
+import { EndCause } from '../language-client-mutualization'
+
+function createFakeLanguageClient (documentCount: number, pendingRequestCount: number) {
+  let disposed = false
+  return {
+    getDocumentCount: () => documentCount,
+    getPendingRequestCount: () => pendingRequestCount,
+    isDisposed: () => disposed,
+    dispose: async () => {
+      disposed = true
+    }
+  } as unknown as LanguageClient
+}
+
+function initializeParams (rootUri: string | null): InitializeParams {
+  return { processId: null, rootUri, workspaceFolders: null, capabilities: {} }
+}
+
+const loads = [{ documents: 3, requests: 0 }, { documents: 1, requests: 5 }, { documents: 2, requests: 1 }]
+
+describe('Language client shards', () => {
+  test('Select the least loaded shard', () => {
+    const createLanguageClient = (index: number) => createFakeLanguageClient(loads[index]!.documents, loads[index]!.requests)
+    expect(new LanguageClientShards({ shards: 3, createLanguageClient }).selectShard(initializeParams(null))).toBe(1)
+    expect(new LanguageClientShards({ shards: 3, createLanguageClient, strategy: ShardingStrategy.LeastPendingRequests }).selectShard(initializeParams(null))).toBe(0)
+  })
+
+  test('Select the same shard for the same uri', () => {
+    const shards = new LanguageClientShards({ shards: 3, createLanguageClient: () => createFakeLanguageClient(0, 0), strategy: ShardingStrategy.UriAffinity })
+    const uris = ['file:///a', 'file:///b', 'file:///c', 'file:///d']
+    const selectedShards = uris.map(uri => shards.selectShard(initializeParams(uri)))
+    expect(uris.map(uri => shards.selectShard(initializeParams(uri)))).toEqual(selectedShards)
+  })
+
+  test('Recycle the disposed shards', async () => {
+    const shards = new LanguageClientShards({
+      shards: 2,
+      createLanguageClient: index => createFakeLanguageClient(index * 10, 0)
+    })
+    const [first] = shards.getLanguageClients()
+    expect(shards.selectShard(initializeParams(null))).toBe(0)
+    await first!.dispose()
+    // The new language client is empty, it gets the next clients
+    expect(shards.selectShard(initializeParams(null))).toBe(0)
+    expect(shards.getLanguageClients()[0]).not.toBe(first)
+  })
+
+  test('Release the shard once the binding ends and bind the next clients to the recycled shard', async () => {
+    const servers: (() => FakeLanguageServer)[] = []
+    const shards = new LanguageClientShards({
+      shards: 2,
+      createLanguageClient: () => {
+        const { languageClient, server } = createTestLanguageClient()
+        servers.push(server)
+        return languageClient
+      }
+    })
+    const bind = (connection: rpc.MessageConnection) => shards.bind(connection)
+
+    const firstClient = await FakeClient.connectWith(bind)
+    // The shards are equally loaded, the next client goes to the shard with fewer clients
+    expect(shards.selectShard(initializeParams(null))).toBe(1)
+    await firstClient.connection.sendNotification(ExitNotification.type)
+    expect(await firstClient.binding).toBe(EndCause.Client)
+    expect(shards.selectShard(initializeParams(null))).toBe(0)
+
+    const secondClient = await FakeClient.connectWith(bind)
+    const otherClient = await FakeClient.connectWith(bind)
+    await shards.recycle(0)
+    expect(await secondClient.binding).toBe(EndCause.Server)
+    expect(servers).toHaveLength(3)
+
+    // The recycled shard is empty, the new client goes to its new server
+    const thirdClient = await FakeClient.connectWith(bind)
+    await thirdClient.openDocument('file:///a', 'foo()')
+    await settle()
+    expect(servers[2]!().documents.get('file:///a')?.getText()).toBe('foo()')
+    expect(servers[1]!().documents.get('file:///a')).toBeUndefined()
+
+    for (const client of [firstClient, secondClient, otherClient, thirdClient]) {
+      client.disconnect()
+    }
+    shards.dispose()
+  })
+})
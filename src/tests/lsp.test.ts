@@ -1,5 +1,6 @@
 import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument'
-import { lspDiff } from '../tools/lsp'
+import { composeContentChanges, rebaseRange } from '../tools/lsp'
+import { lspDiff } from '../tools/diff'
 
 function applyDiff (code: string, diff: TextDocumentContentChangeEvent[]) {
   const document = TextDocument.create('file:///test.txt', 'plaintext', 1, code)
@@ -23,3 +24,85 @@ describe('LspDiff', () => {
     expect(applyDiff(before, diff)).toBe(after)
   })
 })
+
+describe('RebaseRange', () => {
+  const before = 'const a = 1\nconst b = 2\nconst c = 3'
+
+  function getRange (code: string, text: string) {
+    const document = TextDocument.create('file:///test.txt', 'plaintext', 1, code)
+    const offset = code.indexOf(text)
+    return {
+      start: document.positionAt(offset),
+      end: document.positionAt(offset + text.length)
+    }
+  }
+
+  test('Move range after changes', async () => {
+    const after = '// header\nconst a = 10\nconst b = 2\nconst c = 3'
+    const range = rebaseRange(getRange(before, 'b = 2'), lspDiff(before, after))
+    expect(range).toEqual(getRange(after, 'b = 2'))
+  })
+
+  test('Keep range before changes', async () => {
+    const after = 'const a = 1\nconst b = 2\nconst c = 30'
+    const range = rebaseRange(getRange(before, 'a = 1'), lspDiff(before, after))
+    expect(range).toEqual(getRange(after, 'a = 1'))
+  })
+
+  test('Reject overlapping changes', async () => {
+    const after = 'const a = 1\nconst b = 4\nconst c = 3'
+    expect(rebaseRange(getRange(before, 'b = 2'), lspDiff(before, after))).toBeUndefined()
+  })
+})
+
+describe('ComposeContentChanges', () => {
+  const before = 'function main () {\n}'
+
+  function type (position: { line: number, character: number }, text: string) {
+    return text.split('').map((char, index) => ({
+      range: {
+        start: { line: position.line, character: position.character + index },
+        end: { line: position.line, character: position.character + index }
+      },
+      text: char
+    }))
+  }
+
+  test('Merge typing', async () => {
+    const changes = type({ line: 0, character: 18 }, 'return')
+    const composed = composeContentChanges(changes)
+    expect(composed).toHaveLength(1)
+    expect(applyDiff(before, composed)).toBe(applyDiff(before, changes))
+  })
+
+  test('Merge typing and backspace', async () => {
+    const changes = [
+      ...type({ line: 0, character: 18 }, 'retrun'),
+      {
+        range: { start: { line: 0, character: 21 }, end: { line: 0, character: 24 } },
+        text: 'urn'
+      }
+    ]
+    const composed = composeContentChanges(changes)
+    expect(composed).toHaveLength(1)
+    expect(applyDiff(before, composed)).toBe('function main () {return\n}')
+  })
+
+  test('Keep unrelated changes', async () => {
+    const changes = [
+      ...type({ line: 0, character: 0 }, 'async '),
+      ...type({ line: 1, character: 0 }, '  ')
+    ]
+    const composed = composeContentChanges(changes)
+    expect(composed).toHaveLength(2)
+    expect(applyDiff(before, composed)).toBe('async function main () {\n  }')
+  })
+
+  test('Drop changes before a full document change', async () => {
+    const composed = composeContentChanges([
+      ...type({ line: 0, character: 0 }, 'async '),
+      { text: 'const a = 1' }
+    ])
+    expect(composed).toEqual([{ text: 'const a = 1' }])
+  })
+})
@@ -0,0 +1,82 @@
+import { Location, ProgressType, ReferenceParams, ReferencesRequest } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+import { MemoryRequestCache } from '../tools/cache'
+
+const partialResultProgressType = new ProgressType<Location[]>()
+
+const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } }
+
+function references (partialResultToken?: string): ReferenceParams {
+  return { textDocument: { uri: 'file:///a' }, position: range.start, context: { includeDeclaration: true }, partialResultToken }
+}
+
+describe('Partial results', () => {
+  test('Stream the partial results to the requesting client under its own token', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient)
+    const secondClient = await FakeClient.connect(languageClient)
+    await firstClient.openDocument('file:///a', 'foo()')
+    await settle()
+    const serverTokens: unknown[] = []
+    server().connection.onRequest(ReferencesRequest.type, async ({ partialResultToken }) => {
+      serverTokens.push(partialResultToken)
+      await server().connection.sendProgress(partialResultProgressType, partialResultToken!, [{ uri: 'file:///a', range }])
+      await server().connection.sendProgress(partialResultProgressType, partialResultToken!, [{ uri: 'file:///b', range }])
+      return []
+    })
+    const firstPartialResults: Location[][] = []
+    const secondPartialResults: Location[][] = []
+    firstClient.connection.onProgress(partialResultProgressType, 'references', value => firstPartialResults.push(value))
+    secondClient.connection.onProgress(partialResultProgressType, 'references', value => secondPartialResults.push(value))
+
+    expect(await firstClient.connection.sendRequest(ReferencesRequest.type, references('references'))).toEqual([])
+    await settle()
+    expect(serverTokens).toHaveLength(1)
+    expect(serverTokens[0]).not.toBe('references')
+    expect(firstPartialResults).toEqual([[{ uri: 'file:///a', range }], [{ uri: 'file:///b', range }]])
+    expect(secondPartialResults).toEqual([])
+
+    // The other clients using the same token get their own stream
+    expect(await secondClient.connection.sendRequest(ReferencesRequest.type, references('references'))).toEqual([])
+    await settle()
+    expect(serverTokens).toHaveLength(2)
+    expect(serverTokens[1]).not.toBe(serverTokens[0])
+    expect(firstPartialResults).toHaveLength(2)
+    expect(secondPartialResults).toHaveLength(2)
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Bypass the cache for the requests streaming partial results', async () => {
+    const { languageClient, server } = createTestLanguageClient({ createCache: () => new MemoryRequestCache() })
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'foo()')
+    await settle()
+    let requestCount = 0
+    server().connection.onRequest(ReferencesRequest.type, async ({ partialResultToken }) => {
+      requestCount++
+      if (partialResultToken != null) {
+        await server().connection.sendProgress(partialResultProgressType, partialResultToken, [{ uri: 'file:///a', range }])
+        return []
+      }
+      return [{ uri: 'file:///a', range }]
+    })
+    const partialResults: Location[][] = []
+    client.connection.onProgress(partialResultProgressType, 'references', value => partialResults.push(value))
+
+    expect(await client.connection.sendRequest(ReferencesRequest.type, references())).toEqual([{ uri: 'file:///a', range }])
+    expect(await client.connection.sendRequest(ReferencesRequest.type, references())).toEqual([{ uri: 'file:///a', range }])
+    expect(requestCount).toBe(1)
+
+    // The cached result would leave the client waiting for a stream which never comes
+    expect(await client.connection.sendRequest(ReferencesRequest.type, references('references'))).toEqual([])
+    await settle()
+    expect(requestCount).toBe(2)
+    expect(partialResults).toEqual([[{ uri: 'file:///a', range }]])
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+})
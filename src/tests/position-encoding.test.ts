@@ -0,0 +1,59 @@
+import { CompletionRequest, CompletionResolveRequest, PositionEncodingKind } from 'vscode-languageserver-protocol'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { negotiatePositionEncoding, PositionEncodingConverter } from '../position-encoding'
+
+const uri = 'file:///a'
+const document = TextDocument.create(uri, 'plaintext', 1, 'é = 1\n😀 = 2')
+
+describe('Position encoding', () => {
+  test('Negotiate the encoding', () => {
+    expect(negotiatePositionEncoding({})).toBe(PositionEncodingKind.UTF16)
+    expect(negotiatePositionEncoding({ general: { positionEncodings: ['utf-64', PositionEncodingKind.UTF8] } })).toBe(PositionEncodingKind.UTF8)
+  })
+
+  test('Convert the positions of the messages', () => {
+    const converter = new PositionEncodingConverter(PositionEncodingKind.UTF8, () => document)
+    const range = { start: { line: 0, character: 1 }, end: { line: 1, character: 2 } }
+    const utf8Range = { start: { line: 0, character: 2 }, end: { line: 1, character: 4 } }
+    expect(converter.toClient({ uri, range })).toEqual({ uri, range: utf8Range })
+    expect(converter.fromClient({ textDocument: { uri }, position: utf8Range.end })).toEqual({ textDocument: { uri }, position: range.end })
+    expect(converter.toClient({ changes: { [uri]: [{ range, newText: '' }] } })).toEqual({ changes: { [uri]: [{ range: utf8Range, newText: '' }] } })
+  })
+
+  test('Only convert the range and position fields', () => {
+    const converter = new PositionEncodingConverter(PositionEncodingKind.UTF8, () => document)
+    const range = { start: { line: 0, character: 1 }, end: { line: 1, character: 2 } }
+    const utf8Range = { start: { line: 0, character: 2 }, end: { line: 1, character: 4 } }
+    // The prepareRename result is a range
+    expect(converter.toClient(range, uri)).toEqual(utf8Range)
+    expect(converter.toClient({ uri, range, data: { range }, command: { title: 'Test', command: 'test', arguments: [range] } }))
+      .toEqual({ uri, range: utf8Range, data: { range }, command: { title: 'Test', command: 'test', arguments: [range] } })
+    expect(converter.toClient({ uri, cursor: range.end })).toEqual({ uri, cursor: range.end })
+  })
+
+  test('Convert the positions of the resolved items', () => {
+    const converter = new PositionEncodingConverter(PositionEncodingKind.UTF8, () => document)
+    const range = { start: { line: 0, character: 1 }, end: { line: 1, character: 2 } }
+    const utf8Range = { start: { line: 0, character: 2 }, end: { line: 1, character: 4 } }
+    const items = converter.resultToClient(CompletionRequest.method, { isIncomplete: false, items: [{ label: 'a', data: 1 }, { label: 'b' }], itemDefaults: { data: 2 } }, uri)
+    expect(items).toEqual({
+      isIncomplete: false,
+      items: [{ label: 'a', data: { documentUri: uri, data: 1 } }, { label: 'b', data: { documentUri: uri, data: 2 } }],
+      itemDefaults: { data: 2 }
+    })
+
+    // The server receives its own data
+    expect(converter.requestFromClient(CompletionResolveRequest.method, { label: 'a', data: { documentUri: uri, data: 1 } })).toEqual({ params: { label: 'a', data: 1 }, uri })
+    expect(converter.resultToClient(CompletionResolveRequest.method, { label: 'a', data: 1, additionalTextEdits: [{ range, newText: '' }] }, uri))
+      .toEqual({ label: 'a', data: { documentUri: uri, data: 1 }, additionalTextEdits: [{ range: utf8Range, newText: '' }] })
+
+    // Nothing is changed for the UTF-16 clients
+    const identityConverter = new PositionEncodingConverter(PositionEncodingKind.UTF16, () => document)
+    expect(identityConverter.resultToClient(CompletionRequest.method, [{ label: 'a', data: 1 }], uri)).toEqual([{ label: 'a', data: 1 }])
+  })
+
+  test('Convert the semantic tokens', () => {
+    const converter = new PositionEncodingConverter(PositionEncodingKind.UTF32, () => document)
+    expect(converter.semanticTokensDataToClient([0, 0, 1, 0, 0, 0, 2, 1, 0, 0, 1, 0, 2, 0, 0, 0, 3, 1, 0, 0], uri)).toEqual([0, 0, 1, 0, 0, 0, 2, 1, 0, 0, 1, 0, 1, 0, 0, 0, 2, 1, 0, 0])
+  })
+})
@@ -0,0 +1,127 @@
+import { ProgressToken, WorkDoneProgress, WorkDoneProgressCancelNotification, WorkDoneProgressCreateRequest } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+
+const clientCapabilities = { window: { workDoneProgress: true } }
+
+describe('Server work done progresses', () => {
+  test('Create the progress on every client with its own token', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const secondClient = await FakeClient.connect(languageClient, clientCapabilities)
+
+    await server().connection.sendRequest(WorkDoneProgressCreateRequest.type, { token: 1 })
+    await server().connection.sendProgress(WorkDoneProgress.type, 1, { kind: 'begin', title: 'Indexing' })
+    await server().connection.sendProgress(WorkDoneProgress.type, 1, { kind: 'end' })
+    await settle()
+
+    expect(firstClient.progressTokens).toHaveLength(1)
+    expect(secondClient.progressTokens).toHaveLength(1)
+    const firstToken = firstClient.progressTokens[0]!
+    const secondToken = secondClient.progressTokens[0]!
+    expect(firstToken).not.toBe(1)
+    expect(secondToken).not.toBe(1)
+    expect(firstToken).not.toBe(secondToken)
+    expect(firstClient.progresses).toEqual([
+      { token: firstToken, value: { kind: 'begin', title: 'Indexing' } },
+      { token: firstToken, value: { kind: 'end' } }
+    ])
+    expect(secondClient.progresses).toEqual([
+      { token: secondToken, value: { kind: 'begin', title: 'Indexing' } },
+      { token: secondToken, value: { kind: 'end' } }
+    ])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Replay the current state of the progress to the late joiners', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+
+    await server().connection.sendRequest(WorkDoneProgressCreateRequest.type, { token: 'indexing' })
+    await server().connection.sendProgress(WorkDoneProgress.type, 'indexing', { kind: 'begin', title: 'Indexing', cancellable: true, percentage: 0 })
+    await server().connection.sendProgress(WorkDoneProgress.type, 'indexing', { kind: 'report', message: 'src/index.ts', percentage: 40 })
+    await settle()
+
+    const lateClient = await FakeClient.connect(languageClient, clientCapabilities)
+    await settle()
+    expect(lateClient.progressTokens).toHaveLength(1)
+    const lateToken = lateClient.progressTokens[0]!
+    expect(lateToken).not.toBe('indexing')
+    expect(lateToken).not.toBe(firstClient.progressTokens[0])
+    expect(lateClient.progresses).toEqual([
+      { token: lateToken, value: { kind: 'begin', title: 'Indexing', cancellable: true, message: 'src/index.ts', percentage: 40 } }
+    ])
+
+    // The next notifications are sent to both clients
+    await server().connection.sendProgress(WorkDoneProgress.type, 'indexing', { kind: 'end' })
+    await settle()
+    expect(firstClient.progresses).toHaveLength(3)
+    expect(lateClient.progresses).toHaveLength(2)
+    expect(lateClient.progresses[1]).toEqual({ token: lateToken, value: { kind: 'end' } })
+
+    firstClient.disconnect()
+    lateClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Cancel the progress on the server once every client cancelled it', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const secondClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const cancelledTokens: ProgressToken[] = []
+    server().connection.onNotification(WorkDoneProgressCancelNotification.type, ({ token }) => {
+      cancelledTokens.push(token)
+    })
+
+    await server().connection.sendRequest(WorkDoneProgressCreateRequest.type, { token: 1 })
+    await server().connection.sendProgress(WorkDoneProgress.type, 1, { kind: 'begin', title: 'Indexing', cancellable: true })
+    await settle()
+
+    // The server token is unknown to the clients
+    await firstClient.connection.sendNotification(WorkDoneProgressCancelNotification.type, { token: 1 })
+    await firstClient.connection.sendNotification(WorkDoneProgressCancelNotification.type, { token: firstClient.progressTokens[0]! })
+    await settle()
+    expect(cancelledTokens).toEqual([])
+
+    await secondClient.connection.sendNotification(WorkDoneProgressCancelNotification.type, { token: secondClient.progressTokens[0]! })
+    await settle()
+    expect(cancelledTokens).toEqual([1])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Count the clients still creating the progress as viewers', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const secondClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const cancelledTokens: ProgressToken[] = []
+    server().connection.onNotification(WorkDoneProgressCancelNotification.type, ({ token }) => {
+      cancelledTokens.push(token)
+    })
+    // The second client takes a while to create the progress
+    secondClient.connection.onRequest(WorkDoneProgressCreateRequest.type, async ({ token }) => {
+      secondClient.progressTokens.push(token)
+      await settle(100)
+    })
+
+    await server().connection.sendRequest(WorkDoneProgressCreateRequest.type, { token: 1 })
+    await server().connection.sendProgress(WorkDoneProgress.type, 1, { kind: 'begin', title: 'Indexing', cancellable: true })
+    await settle()
+    await firstClient.connection.sendNotification(WorkDoneProgressCancelNotification.type, { token: firstClient.progressTokens[0]! })
+    await settle()
+    expect(cancelledTokens).toEqual([])
+
+    await settle(100)
+    await secondClient.connection.sendNotification(WorkDoneProgressCancelNotification.type, { token: secondClient.progressTokens[0]! })
+    await settle()
+    expect(cancelledTokens).toEqual([1])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+})
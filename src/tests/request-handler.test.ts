@@ -0,0 +1,121 @@
+import { CancellationToken, ResponseError } from 'vscode-jsonrpc'
+import { ClientRequestHandler, createRequestDispatchStrategy, RequestDocumentPartition, ServerRequestStrategy } from '../tools/request-handler'
+
+interface Params {
+  uris: string[]
+}
+
+interface Result {
+  success: boolean
+  client?: string
+  handled?: string
+}
+
+function createHandler (client: string, result: Result | null | Error, calls: string[] = []): ClientRequestHandler<Params, Result, void> {
+  return {
+    client,
+    handler: async (params: Params) => {
+      calls.push(`${client}:${params.uris.join(',')}`)
+      if (result instanceof Error) {
+        throw result
+      }
+      return result
+    }
+  }
+}
+
+function dispatch (strategy: ServerRequestStrategy, handlers: ClientRequestHandler<Params, Result, void>[], originatorCount = 0, partition?: RequestDocumentPartition<Params, Result>) {
+  return createRequestDispatchStrategy<Params, Result, void>(strategy, result => result.success, { success: false }, { documentPartition: partition })(handlers, originatorCount, { uris: ['a', 'b'] }, CancellationToken.None)
+}
+
+describe('Server request strategies', () => {
+  test('First success', async () => {
+    const calls: string[] = []
+    expect(await dispatch(ServerRequestStrategy.FirstSuccess, [
+      createHandler('1', new Error('failure'), calls),
+      createHandler('2', null, calls),
+      createHandler('3', { success: true, client: '3' }, calls),
+      createHandler('4', { success: true, client: '4' }, calls)
+    ])).toEqual({ success: true, client: '3' })
+    expect(calls).toEqual(['1:a,b', '2:a,b', '3:a,b'])
+    expect(await dispatch(ServerRequestStrategy.FirstSuccess, [createHandler('1', new ResponseError(1, 'failure'))])).toEqual({ success: false })
+  })
+
+  test('Originator only', async () => {
+    const calls: string[] = []
+    expect(await dispatch(ServerRequestStrategy.OriginatorOnly, [
+      createHandler('1', { success: false }, calls),
+      createHandler('2', { success: true }, calls)
+    ], 1)).toEqual({ success: false })
+    expect(calls).toEqual(['1:a,b'])
+  })
+
+  test('All must succeed', async () => {
+    expect(await dispatch(ServerRequestStrategy.AllMustSucceed, [
+      createHandler('1', { success: true, client: '1' }),
+      createHandler('2', null),
+      createHandler('3', { success: true, client: '3' })
+    ])).toEqual({ success: true, client: '1' })
+    expect(await dispatch(ServerRequestStrategy.AllMustSucceed, [
+      createHandler('1', { success: true, client: '1' }),
+      createHandler('2', { success: false, client: '2' })
+    ])).toEqual({ success: false, client: '2' })
+  })
+
+  test('First answer', async () => {
+    expect(await dispatch(ServerRequestStrategy.FirstAnswer, [
+      createHandler('1', { success: false }),
+      createHandler('2', { success: true, client: '2' })
+    ])).toEqual({ success: true, client: '2' })
+    expect(await dispatch(ServerRequestStrategy.FirstAnswer, [])).toEqual({ success: false })
+  })
+
+  test('Every document', async () => {
+    const openDocuments: Record<string, string[]> = { 1: ['a'], 2: ['a', 'b'], 3: ['b'] }
+    const partition: RequestDocumentPartition<Params, Result> = {
+      getDocumentUris: params => params.uris,
+      isHandledBy: (uri, client) => openDocuments[client as string]?.includes(uri) ?? false,
+      restrict: (params, uris) => ({ uris }),
+      getFailureResult: (uris, handledUris) => ({ success: false, client: uris.join(','), handled: handledUris.join(',') })
+    }
+    let calls: string[] = []
+    expect(await dispatch(ServerRequestStrategy.EveryDocument, [
+      createHandler('1', { success: true }, calls),
+      createHandler('2', { success: true }, calls),
+      createHandler('3', { success: true }, calls)
+    ], 0, partition)).toEqual({ success: true })
+    // Each document is only applied once
+    expect(calls).toEqual(['1:a', '2:b'])
+
+    // The documents of a failing client are given to the next clients
+    calls = []
+    expect(await dispatch(ServerRequestStrategy.EveryDocument, [
+      createHandler('2', { success: false }, calls),
+      createHandler('1', { success: true }, calls),
+      createHandler('3', { success: true }, calls)
+    ], 0, partition)).toEqual({ success: true })
+    expect(calls).toEqual(['2:a,b', '1:a', '3:b'])
+
+    // Nothing is applied if a document is not open anywhere
+    calls = []
+    expect(await dispatch(ServerRequestStrategy.EveryDocument, [createHandler('1', { success: true }, calls)], 0, partition)).toEqual({ success: false, client: 'b', handled: '' })
+    expect(calls).toEqual([])
+
+    // The failure tells which documents were applied anyway
+    calls = []
+    expect(await dispatch(ServerRequestStrategy.EveryDocument, [
+      createHandler('1', { success: true }, calls),
+      createHandler('2', { success: false }, calls),
+      createHandler('3', { success: false }, calls)
+    ], 0, partition)).toEqual({ success: false, client: 'b', handled: 'a' })
+    expect(calls).toEqual(['1:a', '2:b', '3:b'])
+
+    // The requests which can't be split are only sent to the originators
+    calls = []
+    expect(await dispatch(ServerRequestStrategy.EveryDocument, [
+      createHandler('3', { success: false }, calls),
+      createHandler('1', { success: true }, calls)
+    ], 1, { ...partition, getDocumentUris: () => undefined })).toEqual({ success: false })
+    expect(calls).toEqual(['3:a,b'])
+  })
+})
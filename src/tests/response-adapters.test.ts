@@ -0,0 +1,69 @@
+/* eslint-disable no-template-curly-in-string */
+import { CodeActionRequest, CompletionRequest, DefinitionRequest, DocumentSymbolRequest, HoverRequest, InsertTextFormat, MarkupKind, RenameRequest, ResponseError, SymbolKind } from 'vscode-languageserver-protocol'
+import { adaptResponseToClient, markdownToPlainText, snippetToPlainText } from '../response-adapters'
+
+const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }
+
+describe('Response adapters', () => {
+  test('Convert the snippets to plain text', () => {
+    expect(snippetToPlainText('for (${1:i} = 0; $1 < ${2:n}; $1++) {\n\t$0\n}')).toBe('for (i = 0;  < n; ++) {\n\t\n}')
+    expect(snippetToPlainText('${1|public,private|} ${2:${3:nested}} \\$ ${TM_FILENAME:file} $')).toBe('public nested $ file $')
+
+    const completion = { isIncomplete: false, items: [{ label: 'for', insertText: 'for (${1:i})', insertTextFormat: InsertTextFormat.Snippet }] }
+    expect(adaptResponseToClient(CompletionRequest.method, {}, completion, {})).toMatchObject({
+      items: [{ insertText: 'for (i)', insertTextFormat: InsertTextFormat.PlainText }]
+    })
+    expect(adaptResponseToClient(CompletionRequest.method, {}, completion, {
+      textDocument: { completion: { completionItem: { snippetSupport: true } } }
+    })).toEqual(completion)
+  })
+
+  test('Convert the markdown hovers to plain text', () => {
+    expect(markdownToPlainText('# Title\n\n**Bold** _it_ snake_case [link](http://a) `a*b*`\n\n```ts\nconst a = 1\n```\n---\n> quote \\*')).toBe('Title\n\nBold it snake_case link a*b*\n\nconst a = 1\nquote *')
+
+    const hover = { contents: { kind: MarkupKind.Markdown, value: '`a`' } }
+    expect(adaptResponseToClient(HoverRequest.method, {}, hover, {})).toEqual({ contents: { kind: MarkupKind.PlainText, value: 'a' } })
+    expect(adaptResponseToClient(HoverRequest.method, {}, hover, { textDocument: { hover: { contentFormat: [MarkupKind.Markdown] } } })).toBe(hover)
+
+    // The deprecated marked strings
+    expect(adaptResponseToClient(HoverRequest.method, {}, { contents: ['**a**', { language: 'ts', value: 'const b = 1' }] }, {})).toEqual({
+      contents: { kind: MarkupKind.PlainText, value: 'a\n\nconst b = 1' }
+    })
+    expect(adaptResponseToClient(HoverRequest.method, {}, { contents: '*a*' }, {})).toEqual({ contents: { kind: MarkupKind.PlainText, value: 'a' } })
+  })
+
+  test('Convert the document changes', () => {
+    const edit = { documentChanges: [{ textDocument: { uri: 'file:///a', version: 1 }, edits: [{ range, newText: 'b' }] }] }
+    expect(adaptResponseToClient(RenameRequest.method, {}, edit, {})).toEqual({ changes: { 'file:///a': [{ range, newText: 'b' }] } })
+
+    // The changes can't carry the change annotations
+    const annotatedEdit = {
+      documentChanges: [{ textDocument: { uri: 'file:///a', version: 1 }, edits: [{ range, newText: 'b', annotationId: 'rename' }] }],
+      changeAnnotations: { rename: { label: 'Rename' } }
+    }
+    expect(adaptResponseToClient(RenameRequest.method, {}, annotatedEdit, { workspace: { workspaceEdit: { changeAnnotationSupport: {} } } })).toEqual({
+      changes: { 'file:///a': [{ range, newText: 'b' }] }
+    })
+
+    // The client would not ask for the confirmation
+    const confirmedEdit = { ...annotatedEdit, changeAnnotations: { rename: { label: 'Rename', needsConfirmation: true } } }
+    expect(() => adaptResponseToClient(RenameRequest.method, {}, confirmedEdit, {})).toThrow(ResponseError)
+    expect(adaptResponseToClient(CodeActionRequest.method, {}, [{ title: 'Rename', edit: confirmedEdit }, { title: 'Fix', edit }], {})).toEqual([
+      { title: 'Rename', disabled: { reason: 'The edit needs a confirmation the client is not able to ask for' } },
+      { title: 'Fix', edit: { changes: { 'file:///a': [{ range, newText: 'b' }] } } }
+    ])
+  })
+
+  test('Flatten the document symbols', () => {
+    const symbols = [{ name: 'a', kind: SymbolKind.Class, range, selectionRange: range, children: [{ name: 'b', kind: SymbolKind.Method, range, selectionRange: range }] }]
+    expect(adaptResponseToClient(DocumentSymbolRequest.method, { textDocument: { uri: 'file:///a' } }, symbols, {})).toMatchObject([
+      { name: 'a', location: { uri: 'file:///a', range } },
+      { name: 'b', location: { uri: 'file:///a', range }, containerName: 'a' }
+    ])
+  })
+
+  test('Convert the location links', () => {
+    const links = [{ targetUri: 'file:///a', targetRange: range, targetSelectionRange: range }]
+    expect(adaptResponseToClient(DefinitionRequest.method, {}, links, {})).toEqual([{ uri: 'file:///a', range }])
+  })
+})
@@ -0,0 +1,89 @@
+import { DocumentDiagnosticReportKind, FullDocumentDiagnosticReport, SemanticTokens, SemanticTokensDelta } from 'vscode-languageserver-protocol'
+import { ClientResultTracker, computeSemanticTokensEdits, WorkspaceDiagnosticBaseline } from '../result-tracking'
+
+const uri = 'file:///a'
+
+function diagnostic (message: string) {
+  return { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }, message }
+}
+
+describe('Semantic tokens', () => {
+  test('Compute the edits', () => {
+    expect(computeSemanticTokensEdits([1, 2, 3, 4], [1, 2, 3, 4])).toEqual([])
+    expect(computeSemanticTokensEdits([1, 2, 3, 4], [1, 5, 6, 4])).toEqual([{ start: 1, deleteCount: 2, data: [5, 6] }])
+    expect(computeSemanticTokensEdits([1, 2], [1, 2, 3])).toEqual([{ start: 2, deleteCount: 0, data: [3] }])
+    expect(computeSemanticTokensEdits([1, 1, 1], [1, 1])).toEqual([{ start: 2, deleteCount: 1, data: [] }])
+  })
+
+  test('Compute the delta from the tokens of each client', () => {
+    const firstClient = new ClientResultTracker()
+    const secondClient = new ClientResultTracker()
+    const firstTokens = firstClient.adaptSemanticTokens(uri, { resultId: 'server-1', data: [1, 2, 3] })
+    const secondTokens = secondClient.adaptSemanticTokens(uri, { resultId: 'server-2', data: [1, 2, 4] })
+
+    // The server replaced its result id, the clients still get a delta from their own tokens
+    expect(firstClient.adaptSemanticTokensDelta(uri, firstTokens.resultId!, { resultId: 'server-3', data: [1, 2, 5] })).toMatchObject({
+      edits: [{ start: 2, deleteCount: 1, data: [5] }]
+    })
+    expect(secondClient.adaptSemanticTokensDelta(uri, secondTokens.resultId!, { resultId: 'server-4', data: [1, 2, 5] })).toMatchObject({
+      edits: [{ start: 2, deleteCount: 1, data: [5] }]
+    })
+
+    // An unknown result id gets the full tokens
+    const result = firstClient.adaptSemanticTokensDelta(uri, 'unknown', { data: [1] }) as SemanticTokens & SemanticTokensDelta
+    expect(result.data).toEqual([1])
+    expect(result.edits).toBeUndefined()
+  })
+})
+
+describe('Diagnostic reports', () => {
+  test('Answer unchanged only if the client has the same diagnostics', () => {
+    const tracker = new ClientResultTracker()
+    const params = { textDocument: { uri } }
+    const report = tracker.adaptDocumentDiagnosticReport(params, { kind: DocumentDiagnosticReportKind.Full, resultId: 'server-1', items: [diagnostic('a')] }) as FullDocumentDiagnosticReport
+    expect(report.resultId).not.toBe('server-1')
+
+    expect(tracker.adaptDocumentDiagnosticReport({ ...params, previousResultId: report.resultId }, { kind: DocumentDiagnosticReportKind.Full, items: [diagnostic('a')] })).toMatchObject({
+      kind: DocumentDiagnosticReportKind.Unchanged,
+      resultId: report.resultId
+    })
+    expect(tracker.adaptDocumentDiagnosticReport({ ...params, previousResultId: 'unknown' }, { kind: DocumentDiagnosticReportKind.Full, items: [diagnostic('a')] })).toMatchObject({
+      kind: DocumentDiagnosticReportKind.Full
+    })
+    expect(tracker.adaptDocumentDiagnosticReport({ ...params, previousResultId: report.resultId }, { kind: DocumentDiagnosticReportKind.Full, items: [diagnostic('b')] })).toMatchObject({
+      kind: DocumentDiagnosticReportKind.Full,
+      items: [diagnostic('b')]
+    })
+  })
+
+  test('Expand the unchanged workspace reports of the server', () => {
+    const baseline = new WorkspaceDiagnosticBaseline()
+    baseline.resolve(undefined, { items: [{ uri, version: 1, kind: DocumentDiagnosticReportKind.Full, resultId: 'server-1', items: [diagnostic('a')] }] })
+    expect(baseline.getPreviousResultIds(undefined)).toEqual([{ uri, value: 'server-1' }])
+    expect(baseline.getPreviousResultIds('other')).toEqual([])
+
+    const tracker = new ClientResultTracker()
+    const report = tracker.adaptWorkspaceDiagnosticReport({ previousResultIds: [] }, baseline.resolve(undefined, {
+      items: [{ uri, version: 2, kind: DocumentDiagnosticReportKind.Unchanged, resultId: 'server-1' }]
+    }))
+    expect(report.items).toMatchObject([{ uri, version: 2, kind: DocumentDiagnosticReportKind.Full, items: [diagnostic('a')] }])
+  })
+  test('Forget the reports of the closed documents', () => {
+    const tracker = new ClientResultTracker()
+    const params = { textDocument: { uri } }
+    const report = tracker.adaptDocumentDiagnosticReport(params, { kind: DocumentDiagnosticReportKind.Full, items: [diagnostic('a')] }) as FullDocumentDiagnosticReport
+    tracker.deleteDocument(uri)
+    expect(tracker.adaptDocumentDiagnosticReport({ ...params, previousResultId: report.resultId }, { kind: DocumentDiagnosticReportKind.Full, items: [diagnostic('a')] })).toMatchObject({
+      kind: DocumentDiagnosticReportKind.Full
+    })
+
+    const baseline = new WorkspaceDiagnosticBaseline()
+    baseline.resolve(undefined, { items: [{ uri, version: 1, kind: DocumentDiagnosticReportKind.Full, resultId: 'server-1', items: [] }] })
+    baseline.resolve('other', { items: [{ uri: 'file:///b', version: 1, kind: DocumentDiagnosticReportKind.Full, resultId: 'server-2', items: [] }] })
+    baseline.deleteDocument(uri)
+    expect(baseline.getPreviousResultIds(undefined)).toEqual([])
+    expect(baseline.getPreviousResultIds('other')).toEqual([{ uri: 'file:///b', value: 'server-2' }])
+    baseline.reset()
+    expect(baseline.getPreviousResultIds('other')).toEqual([])
+  })
+})
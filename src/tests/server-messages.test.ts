@@ -0,0 +1,151 @@
+import {
+  ConfigurationRequest, DidChangeConfigurationNotification, ExitNotification, LogMessageNotification, LogMessageParams, MessageType, ShowMessageNotification, ShowMessageParams, ShowMessageRequest
+} from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+import { ConfigurationConflictResolution } from '../configuration'
+
+describe('Server messages', () => {
+  test('Use the first answer to the message requests and dismiss the others', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient)
+    const secondClient = await FakeClient.connect(languageClient)
+    let dismissed = false
+    firstClient.connection.onRequest(ShowMessageRequest.type, (params, token) => {
+      // The user doesn't answer on this client
+      return new Promise(resolve => {
+        token.onCancellationRequested(() => {
+          dismissed = true
+          resolve(null)
+        })
+      })
+    })
+    secondClient.connection.onRequest(ShowMessageRequest.type, () => ({ title: 'Import' }))
+
+    expect(await server().connection.sendRequest(ShowMessageRequest.type, {
+      type: MessageType.Info,
+      message: 'Import the Gradle project?',
+      actions: [{ title: 'Import' }, { title: 'Later' }]
+    })).toEqual({ title: 'Import' })
+    await settle()
+    expect(dismissed).toBe(true)
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Broadcast the messages to every client', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient)
+    const secondClient = await FakeClient.connect(languageClient)
+
+    await server().connection.sendNotification(ShowMessageNotification.type, { type: MessageType.Warning, message: 'The JDK is missing' })
+    await settle()
+    for (const client of [firstClient, secondClient]) {
+      expect(client.getNotifications(ShowMessageNotification.type.method)).toEqual<ShowMessageParams[]>([{ type: MessageType.Warning, message: 'The JDK is missing' }])
+    }
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Keep the last log messages and replay them to the new clients', async () => {
+    const { languageClient, server } = createTestLanguageClient({ maxLogMessages: 3 })
+    const firstClient = await FakeClient.connect(languageClient)
+    for (const [type, message] of [[MessageType.Error, 'first'], [MessageType.Log, 'second'], [MessageType.Warning, 'third'], [MessageType.Info, 'fourth']] as const) {
+      await server().connection.sendNotification(LogMessageNotification.type, { type, message })
+    }
+    await settle()
+    expect(firstClient.getNotifications(LogMessageNotification.type.method)).toHaveLength(4)
+    expect(languageClient.getLogMessages().map(({ message }) => message)).toEqual(['second', 'third', 'fourth'])
+    expect(languageClient.getLogMessages({ maxType: MessageType.Info }).map(({ message }) => message)).toEqual(['third', 'fourth'])
+    expect(languageClient.getLogMessages({ limit: 1 }).map(({ message }) => message)).toEqual(['fourth'])
+
+    const secondClient = await FakeClient.connect(languageClient, {}, { replayedLogMessages: 2 })
+    await settle()
+    expect(secondClient.getNotifications(LogMessageNotification.type.method)).toEqual<LogMessageParams[]>([
+      { type: MessageType.Warning, message: 'third' },
+      { type: MessageType.Info, message: 'fourth' }
+    ])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Forward the telemetry events to the handler', async () => {
+    const telemetryEventHandler = jest.fn()
+    const { languageClient, server } = createTestLanguageClient({ telemetryEventHandler })
+    const client = await FakeClient.connect(languageClient)
+
+    await server().connection.sendNotification('telemetry/event', { name: 'indexed', duration: 120 })
+    await settle()
+    expect(telemetryEventHandler).toHaveBeenCalledWith({ name: 'indexed', duration: 120 })
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+})
+
+describe('Configuration requests', () => {
+  const hostConfiguration: Record<string, unknown> = {
+    java: { home: '/usr/lib/jvm', format: { enabled: true } }
+  }
+  const getConfiguration = async (section: string) => hostConfiguration[section]
+
+  test('Keep the host values over the client ones', async () => {
+    const { languageClient, server } = createTestLanguageClient({
+      getConfiguration,
+      configurationMergePolicy: { clientSections: ['java.completion'] }
+    })
+    const client = await FakeClient.connect(languageClient)
+    await client.connection.sendNotification(DidChangeConfigurationNotification.type, {
+      settings: { java: { home: '/tmp', completion: { enabled: false } } }
+    })
+    await settle()
+
+    expect(await server().connection.sendRequest(ConfigurationRequest.type, { items: [{ section: 'java' }, { section: 'java.completion' }, {}] })).toEqual([
+      { home: '/usr/lib/jvm', format: { enabled: true }, completion: { enabled: false } },
+      { enabled: false },
+      null
+    ])
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Use the settings of the client having the document open', async () => {
+    const { languageClient, server } = createTestLanguageClient({
+      getConfiguration,
+      configurationMergePolicy: { clientSections: ['java.format'], conflictResolution: ConfigurationConflictResolution.DocumentOwner }
+    })
+    const firstClient = await FakeClient.connect(languageClient)
+    const secondClient = await FakeClient.connect(languageClient)
+    await firstClient.openDocument('file:///a', 'foo()')
+    await secondClient.openDocument('file:///b', 'foo()')
+    await firstClient.connection.sendNotification(DidChangeConfigurationNotification.type, { settings: { java: { format: { enabled: false } } } })
+    await settle()
+    await secondClient.connection.sendNotification(DidChangeConfigurationNotification.type, { settings: { java: { format: { enabled: true, comments: false } } } })
+    await settle()
+
+    expect(await server().connection.sendRequest(ConfigurationRequest.type, {
+      items: [{ section: 'java.format', scopeUri: 'file:///a' }, { section: 'java.format', scopeUri: 'file:///b' }, { section: 'java.format' }]
+    })).toEqual([
+      { enabled: false },
+      { enabled: true, comments: false },
+      // Without scope, the last writer wins
+      { enabled: true, comments: false }
+    ])
+
+    // The settings of a client are forgotten once it leaves
+    await secondClient.connection.sendNotification(ExitNotification.type)
+    await secondClient.binding
+    await settle()
+    expect(await server().connection.sendRequest(ConfigurationRequest.type, { items: [{ section: 'java.format' }] })).toEqual([{ enabled: false }])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+})
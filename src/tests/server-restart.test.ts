@@ -0,0 +1,143 @@
+import { DidChangeConfigurationNotification, DidChangeConfigurationParams, DidOpenTextDocumentNotification, DidOpenTextDocumentParams } from 'vscode-languageserver-protocol'
+import { createFakeServerFactory, createMessageConnectionPair, createTestLanguageClient, FakeClient, settle } from './fake-language-server'
+import { createLanguageClient, LanguageClient, LanguageClientDisposeReason } from '../language-client'
+import { TimeoutError } from '../tools/promise'
+
+const initializeParams = { processId: null, rootUri: null, workspaceFolders: null, capabilities: {} }
+
+describe('Server restart', () => {
+  test('Replay the documents and the configuration on the new server', async () => {
+    const { languageClient, servers, closers, server } = createTestLanguageClient({
+      serverRestartPolicy: { initialDelay: 10 },
+      synchronizeConfigurationSections: ['test'],
+      getConfiguration: () => ({ enabled: true })
+    })
+    const restarts = jest.fn()
+    languageClient.onServerRestart(restarts)
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'foo()', 3)
+    await client.changeDocument('file:///a', [{ text: 'bar()' }])
+    await settle()
+
+    closers[0]!()
+    await settle(50)
+    expect(servers).toHaveLength(2)
+    expect(restarts).toHaveBeenCalledTimes(1)
+    expect(server().getNotifications(DidChangeConfigurationNotification.type.method)).toEqual<DidChangeConfigurationParams[]>([{ settings: { test: { enabled: true } } }])
+    expect(server().getNotifications(DidOpenTextDocumentNotification.method)).toEqual<DidOpenTextDocumentParams[]>([{
+      textDocument: { uri: 'file:///a', languageId: 'plaintext', version: 2, text: 'bar()' }
+    }])
+
+    // The changes made after the restart are applied on top of the replayed document
+    await client.changeDocument('file:///a', [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } }, text: 'baz' }])
+    await settle()
+    expect(server().documents.get('file:///a')?.getText()).toBe('baz()')
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Keep the changes made while the server is restarting', async () => {
+    const { languageClient, closers, server } = createTestLanguageClient({ serverRestartPolicy: { initialDelay: 20 } })
+    const client = await FakeClient.connect(languageClient)
+    await client.openDocument('file:///a', 'foo()')
+    await settle()
+
+    closers[0]!()
+    await settle(5)
+    await client.changeDocument('file:///a', [{ text: 'bar()' }])
+    await settle(60)
+    expect(server().documents.get('file:///a')?.getText()).toBe('bar()')
+
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Wait longer between the consecutive restarts', async () => {
+    const { factory, servers, closers } = createFakeServerFactory()
+    const startTimes: number[] = []
+    const languageClient = new LanguageClient(() => {
+      startTimes.push(Date.now())
+      return factory()
+    }, { serverRestartPolicy: { initialDelay: 20, maxDelay: 1000 } })
+    await languageClient.start(initializeParams)
+
+    closers[0]!()
+    await settle(50)
+    expect(servers).toHaveLength(2)
+    closers[1]!()
+    await settle(80)
+    expect(servers).toHaveLength(3)
+
+    expect(startTimes[1]! - startTimes[0]!).toBeGreaterThanOrEqual(20)
+    expect(startTimes[2]! - startTimes[1]!).toBeGreaterThanOrEqual(40)
+    await languageClient.dispose()
+  })
+
+  test('Dispose the language client once the restarts are exhausted', async () => {
+    const { factory, closers } = createFakeServerFactory()
+    let started = false
+    const languageClient = new LanguageClient(() => {
+      if (started) {
+        throw new Error('Unable to spawn the server')
+      }
+      started = true
+      return factory()
+    }, { serverRestartPolicy: { initialDelay: 5, maxDelay: 5, maxRestarts: 2 } })
+    const disposeReasons: LanguageClientDisposeReason[] = []
+    languageClient.onDispose(reason => disposeReasons.push(reason))
+    await languageClient.start(initializeParams)
+
+    closers[0]!()
+    await settle(50)
+    expect(languageClient.isDisposed()).toBe(true)
+    await languageClient.dispose()
+    expect(disposeReasons).toEqual([LanguageClientDisposeReason.Remote])
+  })
+
+  test('Fire the dispose event once when disposed during a restart', async () => {
+    const { languageClient, closers } = createTestLanguageClient({ serverRestartPolicy: { initialDelay: 20 } })
+    const disposeReasons: LanguageClientDisposeReason[] = []
+    languageClient.onDispose(reason => disposeReasons.push(reason))
+    await languageClient.start(initializeParams)
+
+    closers[0]!()
+    await settle(5)
+    expect(languageClient.getServerConnection()).toBeUndefined()
+    await languageClient.dispose()
+    await settle(40)
+    expect(disposeReasons).toEqual([LanguageClientDisposeReason.Local])
+  })
+})
+
+describe('Server start', () => {
+  test('Give up starting a server which does not answer', async () => {
+    const languageClient = new LanguageClient(() => createMessageConnectionPair().left, { serverStartTimeout: 20 })
+    await expect(languageClient.start(initializeParams)).rejects.toBeInstanceOf(TimeoutError)
+  })
+
+  test('Start the server eagerly with the host initialize params', async () => {
+    const { factory, servers } = createFakeServerFactory()
+    const languageClient = createLanguageClient(factory, { initializeParams: { rootUri: 'file:///workspace', workspaceFolders: null, capabilities: {} } })
+    await languageClient.ready
+    expect(servers).toHaveLength(1)
+    expect(servers[0]!.initializeParams).toMatchObject({ processId: null, rootUri: 'file:///workspace' })
+    await languageClient.dispose()
+  })
+
+  test('Refuse the clients once the eager start failed', async () => {
+    const languageClient = createLanguageClient(() => {
+      throw new Error('Unable to spawn the server')
+    }, { initializeParams: { rootUri: 'file:///workspace', workspaceFolders: null, capabilities: {} } })
+    const disposeReasons: LanguageClientDisposeReason[] = []
+    languageClient.onDispose(reason => disposeReasons.push(reason))
+    await expect(languageClient.ready).rejects.toThrow('Unable to spawn the server')
+    expect(languageClient.isDisposed()).toBe(true)
+    expect(disposeReasons).toEqual([LanguageClientDisposeReason.Remote])
+
+    await expect(FakeClient.connect(languageClient, {}, {}, { rootUri: 'file:///workspace' })).rejects.toMatchObject({ message: 'Unable to start the language server' })
+    await expect(languageClient.start()).rejects.toThrow('The language client is disposed')
+    await languageClient.dispose()
+    expect(disposeReasons).toEqual([LanguageClientDisposeReason.Remote])
+  })
+})
@@ -0,0 +1,160 @@
+import { ApplyWorkspaceEditParams, ApplyWorkspaceEditRequest, CodeAction, CodeActionRequest, ExecuteCommandRequest, RenameRequest, WorkspaceEdit } from 'vscode-languageserver-protocol'
+import { createTestLanguageClient, defaultServerCapabilities, FakeClient, settle } from './fake-language-server'
+
+const clientCapabilities = {
+  workspace: { workspaceEdit: { documentChanges: true, resourceOperations: ['rename' as const] } }
+}
+
+const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } }
+
+describe('Workspace edits in results', () => {
+  test('Keep the edits of the documents the client does not have open', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const client = await FakeClient.connect(languageClient, clientCapabilities)
+    await client.openDocument('file:///a', 'foo()', 4)
+    await settle()
+    server().connection.onRequest(RenameRequest.type, (): WorkspaceEdit => ({
+      changes: {
+        'file:///a': [{ range, newText: 'bar' }],
+        'file:///b': [{ range, newText: 'bar' }]
+      }
+    }))
+
+    const edit = await client.connection.sendRequest(RenameRequest.type, { textDocument: { uri: 'file:///a' }, position: range.start, newName: 'bar' })
+    expect(edit).toEqual({
+      changes: {
+        'file:///a': [{ range, newText: 'bar' }],
+        'file:///b': [{ range, newText: 'bar' }]
+      }
+    })
+    client.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Keep the resource operations in order', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const client = await FakeClient.connect(languageClient, clientCapabilities)
+    await client.openDocument('file:///a', 'foo()', 4)
+    await settle()
+    server().connection.onRequest(CodeActionRequest.type, (): CodeAction[] => [{
+      title: 'Move',
+      edit: {
+        documentChanges: [
+          { textDocument: { uri: 'file:///a', version: 1 }, edits: [{ range, newText: 'bar' }] },
+          { kind: 'rename', oldUri: 'file:///a', newUri: 'file:///c' },
+          { textDocument: { uri: 'file:///b', version: 3 }, edits: [{ range, newText: 'bar' }] }
+        ]
+      }
+    }])
+
+    const actions = await client.connection.sendRequest(CodeActionRequest.type, { textDocument: { uri: 'file:///a' }, range, context: { diagnostics: [] } })
+    expect(actions).toEqual([{
+      title: 'Move',
+      edit: {
+        documentChanges: [
+          // The version is translated to the client version
+          { textDocument: { uri: 'file:///a', version: 4 }, edits: [{ range, newText: 'bar' }] },
+          { kind: 'rename', oldUri: 'file:///a', newUri: 'file:///c' },
+          { textDocument: { uri: 'file:///b', version: 3 }, edits: [{ range, newText: 'bar' }] }
+        ]
+      }
+    }])
+    client.disconnect()
+    await languageClient.dispose()
+  })
+})
+
+describe('Workspace edits sent by the server', () => {
+  test('Apply every document on the clients having it open', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const secondClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const appliedEdits: [string, WorkspaceEdit][] = []
+    for (const [name, client] of [['first', firstClient], ['second', secondClient]] as const) {
+      client.connection.onRequest(ApplyWorkspaceEditRequest.type, (params: ApplyWorkspaceEditParams) => {
+        appliedEdits.push([name, params.edit])
+        return { applied: true }
+      })
+    }
+    await firstClient.openDocument('file:///a', 'foo()')
+    await secondClient.openDocument('file:///b', 'foo()')
+    await settle()
+
+    const edit = {
+      changes: {
+        'file:///a': [{ range, newText: 'bar' }],
+        'file:///b': [{ range, newText: 'bar' }]
+      }
+    }
+    expect(await server().connection.sendRequest(ApplyWorkspaceEditRequest.type, { edit })).toEqual({ applied: true })
+    expect(appliedEdits).toEqual([
+      ['first', { changes: { 'file:///a': [{ range, newText: 'bar' }] } }],
+      ['second', { changes: { 'file:///b': [{ range, newText: 'bar' }] } }]
+    ])
+
+    // Nothing is applied if a document is open on no client
+    appliedEdits.length = 0
+    expect(await server().connection.sendRequest(ApplyWorkspaceEditRequest.type, {
+      edit: { changes: { ...edit.changes, 'file:///c': [{ range, newText: 'bar' }] } }
+    })).toMatchObject({ applied: false })
+    expect(appliedEdits).toEqual([])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Tell which documents were applied when a client fails', async () => {
+    const { languageClient, server } = createTestLanguageClient()
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const secondClient = await FakeClient.connect(languageClient, clientCapabilities)
+    firstClient.connection.onRequest(ApplyWorkspaceEditRequest.type, () => ({ applied: true }))
+    secondClient.connection.onRequest(ApplyWorkspaceEditRequest.type, () => ({ applied: false, failureReason: 'The document is read-only' }))
+    await firstClient.openDocument('file:///a', 'foo()')
+    await secondClient.openDocument('file:///b', 'foo()')
+    await settle()
+
+    expect(await server().connection.sendRequest(ApplyWorkspaceEditRequest.type, {
+      edit: { changes: { 'file:///a': [{ range, newText: 'bar' }], 'file:///b': [{ range, newText: 'bar' }] } }
+    })).toEqual({
+      applied: false,
+      failureReason: 'The documents file:///b could not be applied by the clients, the documents file:///a were applied'
+    })
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+
+  test('Send the edits with resource operations to the client which originated them', async () => {
+    const { languageClient, server } = createTestLanguageClient({}, { ...defaultServerCapabilities, executeCommandProvider: { commands: ['move'] } })
+    const firstClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const secondClient = await FakeClient.connect(languageClient, clientCapabilities)
+    const appliedEdits: [string, WorkspaceEdit][] = []
+    for (const [name, client] of [['first', firstClient], ['second', secondClient]] as const) {
+      client.connection.onRequest(ApplyWorkspaceEditRequest.type, (params: ApplyWorkspaceEditParams) => {
+        appliedEdits.push([name, params.edit])
+        return { applied: true }
+      })
+    }
+    await firstClient.openDocument('file:///a', 'foo()')
+    await secondClient.openDocument('file:///b', 'foo()')
+    await settle()
+    const edit: WorkspaceEdit = {
+      documentChanges: [
+        { textDocument: { uri: 'file:///a', version: 1 }, edits: [{ range, newText: 'bar' }] },
+        { kind: 'rename', oldUri: 'file:///a', newUri: 'file:///c' }
+      ]
+    }
+    server().connection.onRequest(ExecuteCommandRequest.type, async () => {
+      return await server().connection.sendRequest(ApplyWorkspaceEditRequest.type, { edit })
+    })
+
+    expect(await secondClient.connection.sendRequest(ExecuteCommandRequest.type, { command: 'move' })).toEqual({ applied: true })
+    expect(appliedEdits).toEqual([['second', edit]])
+
+    firstClient.disconnect()
+    secondClient.disconnect()
+    await languageClient.dispose()
+  })
+})
@@ -1,43 +1,443 @@
 import * as rpc from 'vscode-jsonrpc'
-import { CancellationToken, MessageSignature } from 'vscode-jsonrpc'
+import { Emitter, Event } from 'vscode-jsonrpc'
 import objectHash from 'object-hash'
-import { forwardedClientRequests } from '../constants/lsp'
+import ms from 'ms'
+import { PartialResultParams, WorkDoneProgressParams } from 'vscode-languageserver-protocol'
+import { DocumentUri, TextDocument } from 'vscode-languageserver-textdocument'
+import { createHash } from 'crypto'
+import { getPartialResultToken, getRequestDocumentUris } from './lsp'
+import { createRequestCancelledError, SharedRequest } from './cancellation'
+import { interceptRequests, RequestInterceptor } from './request-interceptor'
+import { forwardedClientRequests, nonCacheableClientRequests, workspaceClientRequests } from '../constants/lsp'
 
 export interface ConnectionRequestCache {
   get: (key: string) => unknown | null
   set: (key: string, value: unknown) => void
   reset: () => void
+  /**
+   * Removes a single entry, allows to only invalidate the entries related to a document
+   * If not implemented, the whole cache is reset every time a document changes
+   */
+  delete?: (key: string) => void
+  /**
+   * Allows to exclude some methods from the cache, every forwarded request is cached except `workspace/executeCommand` if not implemented
+   */
+  isCacheable?: (method: string) => boolean
+  /**
+   * Fired when the cache removes an entry by itself (expired, least recently used...), so the index forgets it
+   */
+  onDidEvict?: Event<string>
 }
 
-const cachedRequestMethods = new Set(forwardedClientRequests.map(request => request.method))
+const nonCacheableRequestMethods = new Set(nonCacheableClientRequests.map(request => request.method))
+const cachedRequestMethods = new Set(forwardedClientRequests.map(request => request.method).filter(method => !nonCacheableRequestMethods.has(method)))
+const workspaceRequestMethods = new Set(workspaceClientRequests.map(request => request.method))
 
-export function createMemoizedConnection (connection: rpc.MessageConnection, cache: ConnectionRequestCache): rpc.MessageConnection {
+/**
+ * Keeps track of the documents each cache entry depends on
+ */
+export class RequestCacheIndex {
+  private documentKeys = new Map<DocumentUri, Set<string>>()
+  // The entries which may depend on any document
+  private workspaceKeys = new Set<string>()
+  // The documents of each entry, undefined for the workspace entries
+  private keyDocuments = new Map<string, DocumentUri[] | undefined>()
+
+  constructor (private cache: ConnectionRequestCache) {
+    cache.onDidEvict?.(key => this.unregister(key))
+  }
+
+  public register (key: string, method: string, params: unknown): void {
+    this.unregister(key)
+    const uris = getRequestDocumentUris(params)
+    if (uris == null || workspaceRequestMethods.has(method)) {
+      this.workspaceKeys.add(key)
+      this.keyDocuments.set(key, undefined)
+      return
+    }
+    this.keyDocuments.set(key, uris)
+    for (const uri of uris) {
+      let keys = this.documentKeys.get(uri)
+      if (keys == null) {
+        keys = new Set()
+        this.documentKeys.set(uri, keys)
+      }
+      keys.add(key)
+    }
+  }
+
+  /**
+   * Removes the entries depending on a document, called when the document is open, changed or closed
+   */
+  public invalidateDocument (uri: DocumentUri): void {
+    if (this.cache.delete == null) {
+      this.reset()
+      return
+    }
+    const keys = [...(this.documentKeys.get(uri) ?? []), ...this.workspaceKeys]
+    for (const key of keys) {
+      this.unregister(key)
+      this.cache.delete(key)
+    }
+  }
+
+  /**
+   * Removes the entry from the sets of all its documents
+   */
+  private unregister (key: string): void {
+    if (!this.keyDocuments.has(key)) {
+      return
+    }
+    const uris = this.keyDocuments.get(key)
+    this.keyDocuments.delete(key)
+    if (uris == null) {
+      this.workspaceKeys.delete(key)
+      return
+    }
+    for (const uri of uris) {
+      const keys = this.documentKeys.get(uri)
+      keys?.delete(key)
+      if (keys?.size === 0) {
+        this.documentKeys.delete(uri)
+      }
+    }
+  }
+
+  /**
+   * @returns The number of indexed entries
+   */
+  public getSize (): number {
+    return this.keyDocuments.size
+  }
+
+  public reset (): void {
+    this.documentKeys.clear()
+    this.workspaceKeys.clear()
+    this.keyDocuments.clear()
+    this.cache.reset()
+  }
+}
+
+/**
+ * The progress tokens are different for each client request, they are ignored in the cache key
+ */
+function getCacheKeyParams (params: unknown): unknown {
+  if (typeof params !== 'object' || params == null) {
+    return params
+  }
+  const { workDoneToken, partialResultToken, ...keyParams } = params as WorkDoneProgressParams & PartialResultParams
+  return keyParams
+}
+
+/**
+ * The identical requests share the same server request, the server request is only cancelled when every caller cancelled it
+ */
+export function createMemoizingInterceptor (cache: ConnectionRequestCache, cacheIndex: RequestCacheIndex): RequestInterceptor {
+  const sharedRequests = new WeakMap<Promise<unknown>, SharedRequest<unknown>>()
+  return (method, args, token, next) => {
+    if (!(cache.isCacheable?.(method) ?? cachedRequestMethods.has(method))) {
+      return next(args, token)
+    }
+
+    if (getPartialResultToken(args[0]) != null) {
+      // The results are streamed to a single client and the final response may be empty, it can't be shared
+      return next(args, token)
+    }
+
+    const cacheKey = objectHash({
+      method,
+      args: args.map(getCacheKeyParams)
+    })
+    const cacheValue = cache.get(cacheKey)
+    const cachedRequest = cacheValue instanceof Promise ? sharedRequests.get(cacheValue) : undefined
+    if (cachedRequest != null && !cachedRequest.isCancelled) {
+      return cachedRequest.join(token)
+    } else if (cacheValue != null && cachedRequest == null) {
+      return Promise.resolve(cacheValue)
+    }
+
+    const sharedRequest = new SharedRequest(sharedToken => next(args, sharedToken))
+    sharedRequests.set(sharedRequest.promise, sharedRequest)
+    cache.set(cacheKey, sharedRequest.promise)
+    cacheIndex.register(cacheKey, method, args[0])
+    return sharedRequest.join(token)
+  }
+}
+
+export function createMemoizedConnection (connection: rpc.MessageConnection, cache: ConnectionRequestCache, cacheIndex: RequestCacheIndex): rpc.MessageConnection {
+  return interceptRequests(connection, createMemoizingInterceptor(cache, cacheIndex))
+}
+
+/**
+ * A cache which can live outside of the process (a local cache process, a key-value store...) and be shared between several mutualization processes
+ * Only the settled successful results are stored, serialized as JSON
+ * The keys include a hash of the content of the documents the request depends on, so the entries never need to be invalidated
+ */
+export interface AsyncConnectionRequestCache {
+  /**
+   * @returns The serialized result, or undefined if there is no entry
+   */
+  get: (key: string) => Promise<string | undefined>
+  set: (key: string, value: string) => Promise<void>
+  /**
+   * Allows to exclude some methods from the cache, every document request is cached if not implemented
+   */
+  isCacheable?: (method: string) => boolean
+}
+
+/**
+ * Allows to use a synchronous cache (like `MemoryRequestCache`) as an asynchronous cache, the entries are kept in the process
+ */
+export function createAsyncRequestCache (cache: ConnectionRequestCache): AsyncConnectionRequestCache {
   return {
-    ...connection,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    sendRequest: (methodOrType: string | MessageSignature, ...args: any[]) => {
-      const method = typeof methodOrType === 'string' ? methodOrType : methodOrType.method
+    get: async key => {
+      const value = cache.get(key)
+      return typeof value === 'string' ? value : undefined
+    },
+    set: async (key, value) => cache.set(key, value),
+    isCacheable: cache.isCacheable
+  }
+}
+
+interface DocumentContentHash {
+  version: number
+  hash: string
+}
+
+/**
+ * Looks up the results of the document requests in an asynchronous cache
+ * Workspace-wide requests depend on documents the proxy may not know about, they are never cached
+ * @param getDocument Returns the document as currently known by the server, the request isn't cached if the document isn't open
+ * @param getEnvironment Returns what the results depend on besides the documents (like the server configuration), part of the cache key
+ * @param onError Called when the cache fails, the request is then sent to the server
+ */
+export function createSharedMemoizingInterceptor (
+  cache: AsyncConnectionRequestCache,
+  getDocument: (uri: DocumentUri) => TextDocument | undefined,
+  getEnvironment: () => unknown,
+  onError?: (error: unknown) => void
+): RequestInterceptor {
+  // Hashing large documents is expensive, the hash is only computed once per version
+  const contentHashes = new WeakMap<TextDocument, DocumentContentHash>()
+  const getContentHash = (document: TextDocument) => {
+    let contentHash = contentHashes.get(document)
+    if (contentHash == null || contentHash.version !== document.version) {
+      contentHash = {
+        version: document.version,
+        hash: createHash('sha256').update(document.getText()).digest('hex')
+      }
+      contentHashes.set(document, contentHash)
+    }
+    return contentHash.hash
+  }
+  // The identical requests sent while the first one is pending share its result
+  const pendingRequests = new Map<string, SharedRequest<unknown>>()
 
-      if (!cachedRequestMethods.has(method)) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return connection.sendRequest(methodOrType as any, ...args)
+  const getCacheKey = (method: string, args: unknown[]) => {
+    if (!(cache.isCacheable?.(method) ?? cachedRequestMethods.has(method)) || workspaceRequestMethods.has(method)) {
+      return undefined
+    }
+    if (getPartialResultToken(args[0]) != null) {
+      return undefined
+    }
+    const uris = getRequestDocumentUris(args[0])
+    if (uris == null) {
+      return undefined
+    }
+    const contentHashes: Record<DocumentUri, string> = {}
+    for (const uri of uris) {
+      const document = getDocument(uri)
+      if (document == null) {
+        return undefined
+      }
+      contentHashes[uri] = getContentHash(document)
+    }
+    return objectHash({
+      method,
+      args: args.map(getCacheKeyParams),
+      contentHashes,
+      environment: getEnvironment() ?? null
+    })
+  }
+
+  const getCachedResult = async (key: string) => {
+    try {
+      const value = await cache.get(key)
+      return value != null ? { result: JSON.parse(value) as unknown } : undefined
+    } catch (error) {
+      onError?.(error)
+      return undefined
+    }
+  }
+
+  return (method, args, token, next) => {
+    const cacheKey = getCacheKey(method, args)
+    if (cacheKey == null) {
+      return next(args, token)
+    }
+
+    const pendingRequest = pendingRequests.get(cacheKey)
+    if (pendingRequest != null && !pendingRequest.isCancelled) {
+      return pendingRequest.join(token)
+    }
+    const sharedRequest = new SharedRequest(async sharedToken => {
+      const cachedResult = await getCachedResult(cacheKey)
+      if (cachedResult != null) {
+        return cachedResult.result
+      }
+      if (sharedToken.isCancellationRequested) {
+        throw createRequestCancelledError()
+      }
+      const result = await next(args, sharedToken)
+      cache.set(cacheKey, JSON.stringify(result ?? null)).catch(error => onError?.(error))
+      return result
+    })
+    pendingRequests.set(cacheKey, sharedRequest)
+    void sharedRequest.promise.catch(() => {}).finally(() => {
+      if (pendingRequests.get(cacheKey) === sharedRequest) {
+        pendingRequests.delete(cacheKey)
       }
+    })
+    return sharedRequest.join(token)
+  }
+}
+
+export function createSharedMemoizedConnection (
+  connection: rpc.MessageConnection,
+  cache: AsyncConnectionRequestCache,
+  getDocument: (uri: DocumentUri) => TextDocument | undefined,
+  getEnvironment: () => unknown,
+  onError?: (error: unknown) => void
+): rpc.MessageConnection {
+  return interceptRequests(connection, createSharedMemoizingInterceptor(cache, getDocument, getEnvironment, onError))
+}
+
+export interface RequestCacheStats {
+  hits: number
+  misses: number
+  /**
+   * Number of entries removed because the cache was full or the entry was too old
+   */
+  evictions: number
+  /**
+   * Number of entries removed because a document changed or the request failed
+   */
+  invalidations: number
+  size: number
+}
 
-      const realArgs = CancellationToken.is(args[args.length - 1]) ? args.slice(0, -1) : args
+export interface MemoryRequestCacheOptions {
+  /**
+   * Maximum number of entries, the least recently used ones are evicted first, 1000 by default
+   */
+  maxEntries?: number
+  /**
+   * Maximum age of an entry in milliseconds, 1 minute by default
+   */
+  maxAge?: number
+  /**
+   * Only caches those methods, every forwarded request by default
+   */
+  includedMethods?: string[]
+  /**
+   * Never caches those methods, `workspace/executeCommand` is never cached anyway
+   */
+  excludedMethods?: string[]
+}
+
+interface CacheEntry {
+  value: unknown
+  expiration: number
+}
 
-      const cacheKey = objectHash({
-        method,
-        args: realArgs
+/**
+ * A bounded in-memory cache, the failed or cancelled requests are removed as soon as they fail
+ */
+export class MemoryRequestCache implements ConnectionRequestCache {
+  private entries = new Map<string, CacheEntry>()
+  private _onDidEvict = new Emitter<string>()
+  private stats = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    invalidations: 0
+  }
+
+  constructor (private options: MemoryRequestCacheOptions = {}) {
+  }
+
+  get onDidEvict (): Event<string> {
+    return this._onDidEvict.event
+  }
+
+  private evict (key: string): void {
+    this.entries.delete(key)
+    this.stats.evictions++
+    this._onDidEvict.fire(key)
+  }
+
+  public get = (key: string): unknown | null => {
+    const entry = this.entries.get(key)
+    if (entry != null && entry.expiration < Date.now()) {
+      this.evict(key)
+    } else if (entry != null) {
+      // Move the entry to the end so the least recently used entries are first
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+      this.stats.hits++
+      return entry.value
+    }
+    this.stats.misses++
+    return null
+  }
+
+  public set = (key: string, value: unknown): void => {
+    const entry: CacheEntry = {
+      value,
+      expiration: Date.now() + (this.options.maxAge ?? ms('1 minute'))
+    }
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    if (value instanceof Promise) {
+      value.catch(() => {
+        // Do not share the errors with the next requests
+        if (this.entries.get(key) === entry) {
+          this.delete(key)
+          this._onDidEvict.fire(key)
+        }
       })
-      const cacheValue = cache.get(cacheKey)
-      if (cacheValue != null) {
-        return cacheValue
+    }
+    const maxEntries = this.options.maxEntries ?? 1000
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        break
       }
+      this.evict(oldestKey)
+    }
+  }
+
+  public delete = (key: string): void => {
+    if (this.entries.delete(key)) {
+      this.stats.invalidations++
+    }
+  }
+
+  public reset = (): void => {
+    this.stats.invalidations += this.entries.size
+    this.entries.clear()
+  }
+
+  public isCacheable = (method: string): boolean => {
+    if (this.options.includedMethods != null && !this.options.includedMethods.includes(method)) {
+      return false
+    }
+    return cachedRequestMethods.has(method) && !(this.options.excludedMethods?.includes(method) ?? false)
+  }
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const resultPromise = connection.sendRequest(methodOrType as any, ...args) as any
-      cache.set(cacheKey, resultPromise)
-      return resultPromise
+  public getStats (): RequestCacheStats {
+    return {
+      ...this.stats,
+      size: this.entries.size
     }
   }
 }
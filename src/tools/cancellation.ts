@@ -0,0 +1,81 @@
+import { CancellationToken, CancellationTokenSource, Disposable, ResponseError } from 'vscode-jsonrpc'
+import { LSPErrorCodes } from 'vscode-languageserver-protocol'
+
+export function createRequestCancelledError (): ResponseError<void> {
+  return new ResponseError(LSPErrorCodes.RequestCancelled, 'The request was cancelled')
+}
+
+export interface CombinedCancellationToken extends Disposable {
+  token: CancellationToken
+}
+
+/**
+ * @returns A token cancelled as soon as one of the tokens is cancelled, it should be disposed once the request is done
+ */
+export function combineCancellationTokens (...tokens: CancellationToken[]): CombinedCancellationToken {
+  const tokenSource = new CancellationTokenSource()
+  const listeners = tokens.map(token => token.onCancellationRequested(() => tokenSource.cancel()))
+  if (tokens.some(token => token.isCancellationRequested)) {
+    tokenSource.cancel()
+  }
+  return {
+    token: tokenSource.token,
+    dispose: () => {
+      for (const listener of listeners) {
+        listener.dispose()
+      }
+      tokenSource.dispose()
+    }
+  }
+}
+
+/**
+ * A server request whose result is shared by several callers
+ * Each caller holds a reference, the server request is only cancelled when every caller cancelled it
+ */
+export class SharedRequest<R> {
+  private tokenSource = new CancellationTokenSource()
+  private references = 0
+  public readonly promise: Promise<R>
+
+  constructor (send: (token: CancellationToken) => Promise<R>) {
+    this.promise = send(this.tokenSource.token)
+    this.promise.catch(() => {}).finally(() => this.tokenSource.dispose())
+  }
+
+  /**
+   * Tells if the server request was cancelled, it can't be joined anymore
+   */
+  public get isCancelled (): boolean {
+    return this.tokenSource.token.isCancellationRequested
+  }
+
+  /**
+   * @param token The caller token, the caller gets a `RequestCancelled` error when it is cancelled while the others still receive the result
+   */
+  public join (token?: CancellationToken): Promise<R> {
+    if (token == null) {
+      // The reference can't be released, the request will never be cancelled
+      this.references = Infinity
+      return this.promise
+    }
+    if (token.isCancellationRequested) {
+      return Promise.reject(createRequestCancelledError())
+    }
+    this.references++
+    return new Promise<R>((resolve, reject) => {
+      let listener: Disposable | undefined = token.onCancellationRequested(() => {
+        listener?.dispose()
+        listener = undefined
+        reject(createRequestCancelledError())
+        if (--this.references === 0) {
+          this.tokenSource.cancel()
+        }
+      })
+      this.promise.then(resolve, reject).finally(() => {
+        listener?.dispose()
+        listener = undefined
+      })
+    })
+  }
+}
@@ -0,0 +1,201 @@
+import { Disposable, TextDocumentContentChangeEvent } from 'vscode-languageserver-protocol'
+import winston from 'winston'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { Worker } from 'worker_threads'
+import { lspDiff } from './diff'
+
+export interface DiffWorkerPoolOptions {
+  /**
+   * Number of worker threads
+   */
+  size: number
+  /**
+   * Minimum length of the documents (in characters) for which the diff is computed in a worker, 100k by default
+   */
+  minDocumentLength?: number
+  /**
+   * Starts a worker thread running the diff worker script, the script next to the CommonJS build is used by default
+   * Allows to start the workers when the script can't be found (with the ESM build for instance)
+   */
+  createWorker?: () => Worker
+  logger?: winston.Logger
+}
+
+interface DiffTask {
+  oldText: string
+  newText: string
+  resolve: (changes: TextDocumentContentChangeEvent[]) => void
+  reject: (error: Error) => void
+}
+
+type DiffWorkerResponse = { ready: true } | { changes: TextDocumentContentChangeEvent[] } | { error: string }
+
+/**
+ * @returns The path of the compiled worker script, undefined if it can't be found (in the ESM build or when running the sources)
+ */
+function getWorkerPath (): string | undefined {
+  if (typeof __dirname === 'undefined') {
+    return undefined
+  }
+  const workerPath = join(__dirname, 'diff-worker.js')
+  return existsSync(workerPath) ? workerPath : undefined
+}
+
+function createDefaultWorker (): Worker {
+  const workerPath = getWorkerPath()
+  if (workerPath == null) {
+    throw new Error('The diff worker script was not found')
+  }
+  return new Worker(workerPath)
+}
+
+/**
+ * Computes the diffs in worker threads so the event loop is not blocked by large documents
+ * The diffs are computed on the main thread if the workers can't be started, or when a worker crashes
+ */
+export class DiffWorkerPool implements Disposable {
+  private idleWorkers: Worker[] = []
+  private readyWorkers = new WeakSet<Worker>()
+  private workerCount = 0
+  private tasks: DiffTask[] = []
+  private unavailable = false
+  private disposed = false
+
+  constructor (private options: DiffWorkerPoolOptions) {
+  }
+
+  public async lspDiff (oldText: string, newText: string): Promise<TextDocumentContentChangeEvent[]> {
+    if (this.disposed) {
+      throw new Error('The diff worker pool is disposed')
+    }
+    const minDocumentLength = this.options.minDocumentLength ?? 100_000
+    if (Math.max(oldText.length, newText.length) < minDocumentLength) {
+      return lspDiff(oldText, newText)
+    }
+    return new Promise((resolve, reject) => {
+      this.tasks.push({ oldText, newText, resolve, reject })
+      this.runNextTask()
+    })
+  }
+
+  /**
+   * @returns The number of running worker threads
+   */
+  public getWorkerCount (): number {
+    return this.workerCount
+  }
+
+  private runNextTask () {
+    if (this.tasks.length === 0) {
+      return
+    }
+    if (this.unavailable) {
+      for (const task of this.tasks.splice(0)) {
+        this.runTaskOnMainThread(task)
+      }
+      return
+    }
+    let worker = this.idleWorkers.pop()
+    if (worker == null) {
+      if (this.workerCount >= this.options.size) {
+        // Every worker is busy, the task will be run when one is released
+        return
+      }
+      try {
+        worker = this.createWorker()
+      } catch (error) {
+        this.setUnavailable(error)
+        return
+      }
+    }
+    this.runTask(worker, this.tasks.shift()!)
+  }
+
+  private setUnavailable (error: unknown) {
+    if (!this.unavailable) {
+      this.unavailable = true
+      this.options.logger?.warn('Unable to start the diff workers, computing the diffs on the main thread', { error })
+    }
+    this.runNextTask()
+  }
+
+  private runTaskOnMainThread (task: DiffTask) {
+    try {
+      task.resolve(lspDiff(task.oldText, task.newText))
+    } catch (error) {
+      task.reject(error as Error)
+    }
+  }
+
+  private createWorker (): Worker {
+    const worker = (this.options.createWorker ?? createDefaultWorker)()
+    // Do not prevent the process from exiting
+    worker.unref()
+    this.workerCount++
+    // The errors are reported to the running task, the worker then exits
+    worker.on('error', () => {})
+    worker.once('exit', () => {
+      this.workerCount--
+      this.idleWorkers = this.idleWorkers.filter(idleWorker => idleWorker !== worker)
+      if (!this.disposed) {
+        this.runNextTask()
+      }
+    })
+    return worker
+  }
+
+  private runTask (worker: Worker, task: DiffTask) {
+    const onMessage = (response: DiffWorkerResponse) => {
+      if ('ready' in response) {
+        this.readyWorkers.add(worker)
+        return
+      }
+      cleanup()
+      if ('error' in response) {
+        task.reject(new Error(response.error))
+      } else {
+        task.resolve(response.changes)
+      }
+      if (this.disposed) {
+        void worker.terminate()
+      } else {
+        this.idleWorkers.push(worker)
+      }
+      this.runNextTask()
+    }
+    const onFailure = (error: unknown) => {
+      cleanup()
+      if (!this.readyWorkers.has(worker)) {
+        // The worker is not able to start, the next ones won't either
+        this.tasks.unshift(task)
+        this.setUnavailable(error)
+        return
+      }
+      this.options.logger?.warn('The diff worker crashed, computing the diff on the main thread', { error })
+      this.runTaskOnMainThread(task)
+    }
+    const onExit = (exitCode: number) => {
+      onFailure(new Error(`The diff worker exited with code ${exitCode}`))
+    }
+    const cleanup = () => {
+      worker.off('message', onMessage)
+      worker.off('error', onFailure)
+      worker.off('exit', onExit)
+    }
+    worker.on('message', onMessage)
+    worker.on('error', onFailure)
+    worker.on('exit', onExit)
+    worker.postMessage({ oldText: task.oldText, newText: task.newText })
+  }
+
+  dispose (): void {
+    this.disposed = true
+    for (const task of this.tasks.splice(0)) {
+      task.reject(new Error('The diff worker pool is disposed'))
+    }
+    for (const worker of this.idleWorkers.splice(0)) {
+      void worker.terminate()
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Entry point of the diff worker threads, see `DiffWorkerPool`
+ */
+import { parentPort } from 'worker_threads'
+import { lspDiff } from './diff'
+
+interface DiffWorkerRequest {
+  oldText: string
+  newText: string
+}
+
+parentPort!.on('message', ({ oldText, newText }: DiffWorkerRequest) => {
+  try {
+    parentPort!.postMessage({ changes: lspDiff(oldText, newText) })
+  } catch (error) {
+    parentPort!.postMessage({ error: String(error) })
+  }
+})
+// The pool knows the worker started properly
+parentPort!.postMessage({ ready: true })
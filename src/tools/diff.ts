@@ -0,0 +1,275 @@
+import fastDiff from 'fast-diff'
+import { TextDocumentContentChangeEvent } from 'vscode-languageserver-protocol'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+
+export interface Diff {
+  offset: number
+  length: number
+  text: string
+}
+
+export interface DiffOptions {
+  /**
+   * Maximum cost of the line level diff, the whole changed region is considered modified above it
+   */
+  maxLineDiffCost?: number
+  /**
+   * Maximum length (old + new) of a changed region to refine at the character level, the region is replaced as a whole above it
+   */
+  maxCharDiffLength?: number
+}
+
+interface LineHunk {
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+/**
+ * @returns The lines of the text, including their line break
+ */
+function splitLines (text: string): string[] {
+  return text.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? []
+}
+
+/**
+ * Myers diff algorithm on line identifiers
+ * @returns The changed line ranges, or undefined if the diff is too expensive to compute
+ */
+function diffLines (oldLines: number[], newLines: number[], maxCost: number): LineHunk[] | undefined {
+  const n = oldLines.length
+  const m = newLines.length
+  const max = n + m
+  const v = new Int32Array(2 * max + 2)
+  // The furthest reaching paths after each step, used to backtrack
+  const trace: Int32Array[] = []
+  let cost = 0
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[max + k - 1]! < v[max + k + 1]!) ? v[max + k + 1]! : v[max + k - 1]! + 1
+      let y = x - k
+      const snakeStart = x
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++
+        y++
+      }
+      cost += x - snakeStart + 1
+      v[max + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+    if (!found) {
+      trace.push(v.slice(max - d, max + d + 1))
+      cost += d
+      if (cost > maxCost) {
+        return undefined
+      }
+    }
+  }
+
+  const hunks: LineHunk[] = []
+  let hunk: LineHunk | undefined
+  let x = n
+  let y = m
+  for (let d = trace.length; d > 0; d--) {
+    const previous = trace[d - 1]!
+    const k = x - y
+    const getPrevious = (diagonal: number) => previous[diagonal + d - 1]!
+    const insertion = k === -d || (k !== d && getPrevious(k - 1) < getPrevious(k + 1))
+    const previousK = insertion ? k + 1 : k - 1
+    const previousX = getPrevious(previousK)
+    const previousY = previousX - previousK
+    const editEndX = insertion ? previousX : previousX + 1
+    const editEndY = editEndX - k
+    if (x > editEndX && hunk != null) {
+      // Some lines are identical between this edit and the next one
+      hunks.push(hunk)
+      hunk = undefined
+    }
+    if (hunk == null) {
+      hunk = { oldStart: previousX, oldEnd: editEndX, newStart: previousY, newEnd: editEndY }
+    } else {
+      hunk.oldStart = previousX
+      hunk.newStart = previousY
+    }
+    x = previousX
+    y = previousY
+  }
+  if (hunk != null) {
+    hunks.push(hunk)
+  }
+  return hunks.reverse()
+}
+
+function charDiff (oldText: string, newText: string, offset: number): Diff[] {
+  const diffs: Diff[] = []
+  for (const [type, text] of fastDiff(oldText, newText)) {
+    switch (type) {
+      case -1:
+        diffs.push({
+          offset,
+          length: text.length,
+          text: ''
+        })
+        break
+      case 1:
+        diffs.push({
+          offset,
+          length: 0,
+          text
+        })
+        break
+    }
+    if (type !== 1) {
+      offset += text.length
+    }
+  }
+  return diffs
+}
+
+function optimizeDiff (diffs: Diff[]): Diff[] {
+  const optimizedDiff: Diff[] = []
+  let lastDiff = diffs[0]
+  for (let i = 1; i < diffs.length; ++i) {
+    const diff = diffs[i]!
+    if (diff.offset === lastDiff!.offset + lastDiff!.length) {
+      lastDiff = {
+        offset: lastDiff!.offset,
+        length: lastDiff!.length + diff.length,
+        text: lastDiff?.text + diff.text
+      }
+    } else {
+      optimizedDiff.push(lastDiff!)
+      lastDiff = diff
+    }
+  }
+  if (lastDiff != null) {
+    optimizedDiff.push(lastDiff)
+  }
+  return optimizedDiff
+}
+
+/**
+ * Binary search of the longest common prefix or suffix, comparing substrings is a lot faster than comparing characters one by one
+ */
+function getCommonLength (oldLength: number, newLength: number, isCommon: (length: number) => boolean): number {
+  let min = 0
+  let max = Math.min(oldLength, newLength)
+  while (min < max) {
+    const middle = Math.ceil((min + max) / 2)
+    if (isCommon(middle)) {
+      min = middle
+    } else {
+      max = middle - 1
+    }
+  }
+  return min
+}
+
+function isLineStart (text: string, offset: number): boolean {
+  const previous = text[offset - 1]
+  return offset === 0 || offset === text.length || previous === '\n' || (previous === '\r' && text[offset] !== '\n')
+}
+
+/**
+ * Computes the diff in 2 passes so the time spent is bounded even for huge or very different texts:
+ * - a line level pass (common prefix/suffix then a diff of the line hashes) narrows the changed regions
+ * - the small regions are then refined at the character level
+ */
+export function diff (oldText: string, newText: string, { maxLineDiffCost = 1_000_000, maxCharDiffLength = 5_000 }: DiffOptions = {}): Diff[] {
+  if (oldText === newText) {
+    return []
+  }
+
+  // Common prefix and suffix, reduced to whole lines
+  let start = getCommonLength(oldText.length, newText.length, length => oldText.slice(0, length) === newText.slice(0, length))
+  while (!isLineStart(oldText, start)) {
+    start--
+  }
+  let suffix = getCommonLength(oldText.length - start, newText.length - start, length => oldText.slice(oldText.length - length) === newText.slice(newText.length - length))
+  while (suffix > 0 && !isLineStart(oldText, oldText.length - suffix)) {
+    suffix--
+  }
+
+  const lineIds = new Map<string, number>()
+  const getLineId = (line: string) => {
+    let id = lineIds.get(line)
+    if (id == null) {
+      id = lineIds.size
+      lineIds.set(line, id)
+    }
+    return id
+  }
+  const oldMiddle = splitLines(oldText.slice(start, oldText.length - suffix))
+  const newMiddleText = newText.slice(start, newText.length - suffix)
+  const newMiddle = splitLines(newMiddleText)
+  const hunks = diffLines(oldMiddle.map(getLineId), newMiddle.map(getLineId), maxLineDiffCost) ?? [{
+    oldStart: 0,
+    oldEnd: oldMiddle.length,
+    newStart: 0,
+    newEnd: newMiddle.length
+  }]
+
+  const getOffsets = (lines: string[], start: number) => {
+    const offsets = [start]
+    for (const line of lines) {
+      offsets.push(offsets[offsets.length - 1]! + line.length)
+    }
+    return offsets
+  }
+  const oldOffsets = getOffsets(oldMiddle, start)
+  const newOffsets = getOffsets(newMiddle, 0)
+
+  const diffs: Diff[] = []
+  for (const hunk of hunks) {
+    const offset = oldOffsets[hunk.oldStart]!
+    const length = oldOffsets[hunk.oldEnd]! - offset
+    const text = newMiddleText.slice(newOffsets[hunk.newStart], newOffsets[hunk.newEnd])
+    if (length + text.length <= maxCharDiffLength) {
+      diffs.push(...charDiff(oldText.slice(offset, offset + length), text, offset))
+    } else {
+      diffs.push({ offset, length, text })
+    }
+  }
+  return optimizeDiff(diffs)
+}
+
+/**
+ * A position can't be located between the `\r` and the `\n` of a line break, so the diffs are extended to include the whole line break
+ */
+function alignOnLineBreaks (oldText: string, diffs: Diff[]): Diff[] {
+  const isInsideLineBreak = (offset: number) => oldText[offset - 1] === '\r' && oldText[offset] === '\n'
+  return diffs.map(diff => {
+    let { offset, length, text } = diff
+    if (isInsideLineBreak(offset)) {
+      offset--
+      length++
+      text = '\r' + text
+    }
+    if (isInsideLineBreak(offset + length)) {
+      length++
+      text = text + '\n'
+    }
+    return { offset, length, text }
+  })
+}
+
+/**
+ * @returns The changes to apply on the old text to get the new text, they are ordered so they can be applied one after the other
+ */
+export function lspDiff (oldText: string, newText: string, options?: DiffOptions): TextDocumentContentChangeEvent[] {
+  // Use the same line break semantics as the documents the changes are applied on
+  const oldDocument = TextDocument.create('', '', 0, oldText)
+  return optimizeDiff(alignOnLineBreaks(oldText, diff(oldText, newText, options))).reverse().map(diff => ({
+    range: {
+      start: oldDocument.positionAt(diff.offset),
+      end: oldDocument.positionAt(diff.offset + diff.length)
+    },
+    rangeLength: diff.length,
+    text: diff.text
+  }))
+}
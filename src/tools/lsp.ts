@@ -1,89 +1,101 @@
-import fastDiff from 'fast-diff'
 import { InitializeParams } from 'vscode-languageserver'
-import { DocumentFilter, DocumentSelector, FileChangeType, GlobPattern, Position, RelativePattern, RequestType, TextDocumentContentChangeEvent, TextDocumentFilter, URI } from 'vscode-languageserver-protocol'
+import { DocumentFilter, DocumentSelector, FileChangeType, GlobPattern, PartialResultParams, Position, ProgressToken, Range, RelativePattern, RequestType, TextDocumentContentChangeEvent, TextDocumentEdit, TextDocumentPositionParams, TextDocumentFilter, URI, WorkDoneProgressParams, WorkspaceEdit } from 'vscode-languageserver-protocol'
 import globToRegExp from 'glob-to-regexp'
-import { TextDocument } from 'vscode-languageserver-textdocument'
+import { DocumentUri, TextDocument } from 'vscode-languageserver-textdocument'
 import { pathToFileURL, URL } from 'url'
-interface Diff {
-  offset: number
-  length: number
-  text: string
+function getTextEnd (start: Position, text: string): Position {
+  const lines = text.split(/\r\n|\r|\n/)
+  if (lines.length === 1) {
+    return { line: start.line, character: start.character + text.length }
+  }
+  return { line: start.line + lines.length - 1, character: lines[lines.length - 1]!.length }
 }
 
-function diff (oldText: string, newText: string): Diff[] {
-  const diffsResult = fastDiff(oldText, newText)
+function comparePositions (a: Position, b: Position): number {
+  return a.line !== b.line ? a.line - b.line : a.character - b.character
+}
 
-  let offset = 0
-  const diffs: Diff[] = []
-  for (const [type, text] of diffsResult) {
-    switch (type) {
-      case -1:
-        diffs.push({
-          offset,
-          length: text.length,
-          text: ''
-        })
-        break
-      case 1:
-        diffs.push({
-          offset,
-          length: 0,
-          text
-        })
-        break
+/**
+ * Moves a range through incremental changes applied after it was computed
+ * @returns The new range, or undefined if the range was modified by a change
+ */
+export function rebaseRange (range: Range, changes: TextDocumentContentChangeEvent[]): Range | undefined {
+  let { start, end } = range
+  for (const change of changes) {
+    if (!('range' in change)) {
+      // Full document change
+      return undefined
+    }
+    if (comparePositions(end, change.range.start) <= 0) {
+      // Before the change
+      continue
     }
-    if (type !== 1) {
-      offset += text.length
+    if (comparePositions(start, change.range.end) < 0) {
+      // Overlaps the change
+      return undefined
     }
+    const changeEnd = change.range.end
+    const newChangeEnd = getTextEnd(change.range.start, change.text)
+    const movePosition = (position: Position): Position => position.line === changeEnd.line
+      ? { line: newChangeEnd.line, character: newChangeEnd.character + position.character - changeEnd.character }
+      : { line: position.line + newChangeEnd.line - changeEnd.line, character: position.character }
+    start = movePosition(start)
+    end = movePosition(end)
   }
-  return diffs
+  return { start, end }
 }
 
-function optimizeDiff (diffs: Diff[]): Diff[] {
-  const optimizedDiff: Diff[] = []
-  let lastDiff = diffs[0]
-  for (let i = 1; i < diffs.length; ++i) {
-    const diff = diffs[i]!
-    if (diff.offset === lastDiff!.offset + lastDiff!.length) {
-      lastDiff = {
-        offset: lastDiff!.offset,
-        length: lastDiff!.length + diff.length,
-        text: lastDiff?.text + diff.text
-      }
-    } else {
-      optimizedDiff.push(lastDiff!)
-      lastDiff = diff
-    }
-  }
-  if (lastDiff != null) {
-    optimizedDiff.push(lastDiff)
+function getOffsetInText (text: string, start: Position, position: Position): number {
+  const lineBreak = /\r\n|\r|\n/g
+  let offset = 0
+  for (let line = start.line; line < position.line; line++) {
+    const match = lineBreak.exec(text)!
+    offset = match.index + match[0]!.length
   }
-  return optimizedDiff
+  return offset + position.character - (position.line === start.line ? start.character : 0)
 }
 
-function charOffsetToLineAndChar (lines: string[], offset: number): Position {
-  for (let i = 0; i < lines.length; i++) {
-    if (offset <= lines[i]!.length) {
-      return { line: i, character: offset }
+/**
+ * Composes successive content changes into a smaller equivalent list:
+ * - the changes preceding a full document change are dropped
+ * - a change replacing the end of the text inserted by the previous change (typing, backspace) is merged into it
+ */
+export function composeContentChanges (changes: TextDocumentContentChangeEvent[]): TextDocumentContentChangeEvent[] {
+  const composed: TextDocumentContentChangeEvent[] = []
+  for (const change of changes) {
+    if (!('range' in change)) {
+      composed.splice(0, composed.length, change)
+      continue
     }
-    offset -= lines[i]!.length + 1 // +1 for newline char
+    const previous = composed[composed.length - 1]
+    if (previous != null && 'range' in previous) {
+      const insertedTextEnd = getTextEnd(previous.range.start, previous.text)
+      if (comparePositions(change.range.end, insertedTextEnd) === 0 && comparePositions(change.range.start, previous.range.start) >= 0) {
+        const offset = getOffsetInText(previous.text, previous.range.start, change.range.start)
+        composed[composed.length - 1] = {
+          range: previous.range,
+          text: previous.text.slice(0, offset) + change.text
+        }
+        continue
+      }
+    }
+    composed.push(change)
   }
-  throw new Error(`Position ${offset} not found in lines: ${lines.join('\n')}`)
+  return composed
 }
 
-export function lspDiff (oldText: string, newText: string): TextDocumentContentChangeEvent[] {
-  const diffs = diff(oldText, newText)
-  const optimized = optimizeDiff(diffs)
-
-  const oldLines = oldText.split('\n')
-  return optimized.slice(0).reverse().map(diff => ({
-    range: {
-      start: charOffsetToLineAndChar(oldLines, diff.offset),
-      end: charOffsetToLineAndChar(oldLines, diff.offset + diff.length)
-    },
-    rangeLength: diff.length,
-    text: diff.text
-  }))
+/**
+ * Moves a range through successive change batches
+ */
+export function rebaseRanges (range: Range, changes: TextDocumentContentChangeEvent[][]): Range | undefined {
+  let rebased: Range | undefined = range
+  for (const batch of changes) {
+    rebased = rebaseRange(rebased, batch)
+    if (rebased == null) {
+      return undefined
+    }
+  }
+  return rebased
 }
 
 export function getClientWorkspaceFolderUri (initParams: InitializeParams): string {
@@ -99,6 +111,57 @@ export function getClientWorkspaceFolderUri (initParams: InitializeParams): stri
   throw new Error('No workspace folder configured')
 }
 
+export function getWorkDoneToken (params: unknown): ProgressToken | undefined {
+  if (typeof params !== 'object' || params == null) {
+    return undefined
+  }
+  return (params as WorkDoneProgressParams).workDoneToken
+}
+
+export function getPartialResultToken (params: unknown): ProgressToken | undefined {
+  if (typeof params !== 'object' || params == null) {
+    return undefined
+  }
+  return (params as PartialResultParams).partialResultToken
+}
+
+/**
+ * @returns The documents a request is about, or undefined if it may concern any document
+ */
+export function getRequestDocumentUris (params: unknown): DocumentUri[] | undefined {
+  if (typeof params !== 'object' || params == null) {
+    return undefined
+  }
+  const uri = (params as Partial<TextDocumentPositionParams>).textDocument?.uri
+  return uri != null ? [uri] : undefined
+}
+
+/**
+ * @returns The documents edited by a workspace edit, or undefined if it contains resource operations
+ */
+export function getWorkspaceEditDocumentUris (edit: WorkspaceEdit): DocumentUri[] | undefined {
+  const uris = new Set(Object.keys(edit.changes ?? {}))
+  for (const documentChange of edit.documentChanges ?? []) {
+    if (!TextDocumentEdit.is(documentChange)) {
+      return undefined
+    }
+    uris.add(documentChange.textDocument.uri)
+  }
+  return Array.from(uris)
+}
+
+/**
+ * @returns The part of a workspace edit about the given documents
+ */
+export function restrictWorkspaceEdit (edit: WorkspaceEdit, uris: DocumentUri[]): WorkspaceEdit {
+  const uriSet = new Set(uris)
+  return {
+    ...edit,
+    changes: edit.changes != null ? Object.fromEntries(Object.entries(edit.changes).filter(([uri]) => uriSet.has(uri))) : undefined,
+    documentChanges: edit.documentChanges?.filter(documentChange => TextDocumentEdit.is(documentChange) && uriSet.has(documentChange.textDocument.uri))
+  }
+}
+
 export function isRequestType<P, R> (type: RequestType<P, R, unknown>, request: RequestType<unknown, unknown, unknown>, params: unknown): params is P {
   return request.method === type.method
 }
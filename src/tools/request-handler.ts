@@ -1,6 +1,23 @@
-import { Disposable, HandlerResult, ProtocolRequestType, ProtocolRequestType0, RequestHandler } from 'vscode-languageserver'
+import { CancellationToken, CancellationTokenSource, Disposable, HandlerResult, ProtocolRequestType, ProtocolRequestType0, RequestHandler, ResponseError } from 'vscode-languageserver'
+import winston from 'winston'
+
+/**
+ * @param client Identifies the client the handler belongs to, used to send the request to the client which originated it first
+ */
+export type RequestHandlerRegistration<T, R, E> = (handler: RequestHandler<T, R | null, E>, client?: unknown) => Disposable
+
+export interface ClientRequestHandler<T, R, E> {
+  handler: RequestHandler<T, R | null, E>
+  client?: unknown
+}
+
+/**
+ * Calls the handlers and computes the final result
+ * @param handlers The handlers, the ones of the clients which originated the request first
+ * @param originatorCount The number of handlers belonging to a client which originated the request
+ */
+export type RequestDispatchStrategy<T, R, E> = (handlers: ClientRequestHandler<T, R, E>[], originatorCount: number, params: T, token: CancellationToken) => Promise<HandlerResult<R, E>>
 
-export type RequestHandlerRegistration<T, R, E> = (handler: RequestHandler<T, R | null, E>) => Disposable
 export function allVoidMerger<E> (results: Awaited<HandlerResult<null | void, E>>[]): HandlerResult<void, E> {
   for (const result of results) {
     if (result instanceof Error) {
@@ -9,40 +26,244 @@ export function allVoidMerger<E> (results: Awaited<HandlerResult<null | void, E>
   }
 }
 
-export function singleHandlerMerger<R, E> (errorResponse?: R) {
-  return (results: Awaited<HandlerResult<R | null, E>>[]): R => {
-    const validResults = results.filter((result): result is Awaited<R> => result != null)
-    if (validResults.length !== 1) {
-      if (errorResponse == null) {
-        throw new Error(`Expected 1 answer, got ${validResults.length}`)
+/**
+ * Calls every handler in parallel then merges the results
+ */
+export function mergeStrategy<T, R, E> (merger: (results: Awaited<HandlerResult<R | null, E>>[]) => HandlerResult<R, E>): RequestDispatchStrategy<T, R, E> {
+  return async (handlers, originatorCount, params, token) => {
+    return merger(await Promise.all(handlers.map(async ({ handler }) => {
+      return await handler(params, token)
+    })))
+  }
+}
+
+export enum ServerRequestStrategy {
+  /**
+   * The handlers are called one by one, the clients which originated the request first, until one succeeds
+   */
+  FirstSuccess = 'first-success',
+  /**
+   * Only the clients which originated the request are called, until one succeeds
+   */
+  OriginatorOnly = 'originator-only',
+  /**
+   * Every handler is called in parallel and they all need to succeed
+   */
+  AllMustSucceed = 'all-must-succeed',
+  /**
+   * Every handler is called in parallel, the first success wins and the other requests are cancelled
+   */
+  FirstAnswer = 'first-answer',
+  /**
+   * The request is split by document, every document needs to be handled by one of the clients having it open
+   * The handlers are called one by one, the clients which originated the request first, with the documents not handled yet
+   * Only supported by the requests which can be split (`workspace/applyEdit`), it behaves like `FirstSuccess` otherwise
+   * The requests which can't be split (resource operations) are only sent to the clients which originated them, if any
+   */
+  EveryDocument = 'every-document'
+}
+
+/**
+ * Splits a request by document between the clients
+ */
+export interface RequestDocumentPartition<T, R> {
+  /**
+   * @returns The documents the request is about, or undefined if the request can't be split
+   */
+  getDocumentUris: (params: T) => string[] | undefined
+  isHandledBy: (uri: string, client: unknown) => boolean
+  /**
+   * @returns The part of the request about the given documents
+   */
+  restrict: (params: T, uris: string[]) => T
+  /**
+   * @param uris The documents which were not handled
+   * @param handledUris The documents already handled by a client when the others failed
+   */
+  getFailureResult: (uris: string[], handledUris: string[]) => R
+}
+
+export interface RequestDispatchOptions<T, R> {
+  /**
+   * Required by the `EveryDocument` strategy
+   */
+  documentPartition?: RequestDocumentPartition<T, R>
+  logger?: winston.Logger
+}
+
+/**
+ * Handlers can return null when the request doesn't concern their client, they are then ignored
+ * @param isSuccess Tells if a handler result is a success
+ * @param failureResult The result to use if no handler succeeded
+ */
+export function createRequestDispatchStrategy<T, R, E> (
+  strategy: ServerRequestStrategy,
+  isSuccess: (result: R) => boolean,
+  failureResult: R,
+  options: RequestDispatchOptions<T, R> = {}
+): RequestDispatchStrategy<T, R, E> {
+  async function callHandler ({ handler }: ClientRequestHandler<T, R, E>, params: T, token: CancellationToken): Promise<R | null> {
+    try {
+      const result = await handler(params, token)
+      if (result instanceof ResponseError) {
+        options.logger?.error('The client failed to handle the server request', { error: result })
+        return failureResult
+      }
+      return result
+    } catch (error) {
+      options.logger?.error('The client failed to handle the server request', { error })
+      return failureResult
+    }
+  }
+
+  async function firstSuccess (handlers: ClientRequestHandler<T, R, E>[], params: T, token: CancellationToken): Promise<R> {
+    let lastFailure: R | undefined
+    for (const handler of handlers) {
+      const result = await callHandler(handler, params, token)
+      if (result != null) {
+        if (isSuccess(result)) {
+          return result
+        }
+        lastFailure = result
+      }
+    }
+    return lastFailure ?? failureResult
+  }
+
+  async function everyDocument (handlers: ClientRequestHandler<T, R, E>[], originatorCount: number, partition: RequestDocumentPartition<T, R>, params: T, token: CancellationToken): Promise<R> {
+    const uris = partition.getDocumentUris(params)
+    if (uris == null) {
+      // The request can't be split, the clients which originated it are the most likely to handle it as a whole
+      return firstSuccess(originatorCount > 0 ? handlers.slice(0, originatorCount) : handlers, params, token)
+    }
+    if (uris.length === 0) {
+      return firstSuccess(handlers, params, token)
+    }
+    // Nothing is sent if a document is open on no client
+    const unhandledUris = uris.filter(uri => !handlers.some(({ client }) => partition.isHandledBy(uri, client)))
+    if (unhandledUris.length > 0) {
+      return partition.getFailureResult(unhandledUris, [])
+    }
+    const remainingUris = new Set(uris)
+    const handledUris: string[] = []
+    let lastResult: R | undefined
+    let lastFailure: R | undefined
+    for (const handler of handlers) {
+      const clientUris = Array.from(remainingUris).filter(uri => partition.isHandledBy(uri, handler.client))
+      if (clientUris.length === 0) {
+        continue
       }
-      return errorResponse
+      const result = await callHandler(handler, partition.restrict(params, clientUris), token)
+      if (result == null) {
+        continue
+      }
+      if (!isSuccess(result)) {
+        // Another client having the documents open may succeed
+        lastFailure = result
+        continue
+      }
+      lastResult = result
+      for (const uri of clientUris) {
+        remainingUris.delete(uri)
+        handledUris.push(uri)
+      }
+      if (remainingUris.size === 0) {
+        return lastResult
+      }
+    }
+    if (handledUris.length === 0 && lastFailure != null) {
+      return lastFailure
     }
-    return validResults[0]!
+    // Some documents may have been handled already, the failure has to tell which ones
+    return partition.getFailureResult(Array.from(remainingUris), handledUris)
+  }
+
+  switch (strategy) {
+    case ServerRequestStrategy.EveryDocument: {
+      const partition = options.documentPartition
+      if (partition != null) {
+        return async (handlers, originatorCount, params, token) => everyDocument(handlers, originatorCount, partition, params, token)
+      }
+      return async (handlers, originatorCount, params, token) => firstSuccess(handlers, params, token)
+    }
+    case ServerRequestStrategy.FirstSuccess:
+      return async (handlers, originatorCount, params, token) => firstSuccess(handlers, params, token)
+    case ServerRequestStrategy.OriginatorOnly:
+      return async (handlers, originatorCount, params, token) => firstSuccess(handlers.slice(0, originatorCount), params, token)
+    case ServerRequestStrategy.AllMustSucceed:
+      return async (handlers, originatorCount, params, token) => {
+        const results: R[] = []
+        for (const result of await Promise.all(handlers.map(handler => callHandler(handler, params, token)))) {
+          if (result != null) {
+            results.push(result)
+          }
+        }
+        return results.find(result => !isSuccess(result)) ?? results[0] ?? failureResult
+      }
+    case ServerRequestStrategy.FirstAnswer:
+      return async (handlers, originatorCount, params, token) => {
+        const cancellationTokenSource = new CancellationTokenSource()
+        const cancellationListener = token.onCancellationRequested(() => cancellationTokenSource.cancel())
+        try {
+          return await new Promise<R>(resolve => {
+            let remaining = handlers.length
+            if (remaining === 0) {
+              resolve(failureResult)
+            }
+            for (const handler of handlers) {
+              void callHandler(handler, params, cancellationTokenSource.token).then(result => {
+                if (result != null && isSuccess(result)) {
+                  resolve(result)
+                } else if (--remaining === 0) {
+                  resolve(failureResult)
+                }
+              })
+            }
+          })
+        } finally {
+          // Dismiss the request on the other clients
+          cancellationTokenSource.cancel()
+          cancellationListener.dispose()
+          cancellationTokenSource.dispose()
+        }
+      }
   }
 }
 
 export class MultiRequestHandler<T, R, E> {
-  private handlers: RequestHandler<T, R | null, E>[] = []
+  private handlers: ClientRequestHandler<T, R, E>[] = []
   constructor (
     type: ProtocolRequestType<T, R, unknown, E, void> | ProtocolRequestType0<T, unknown, E, void>,
-    private merger: (results: Awaited<HandlerResult<R | null, E>>[]) => HandlerResult<R, E>
+    private strategy: RequestDispatchStrategy<T, R, E>
   ) {
   }
 
-  public onRequest: RequestHandlerRegistration<T, R, E> = handler => {
-    this.handlers.push(handler)
+  public onRequest: RequestHandlerRegistration<T, R, E> = (handler, client) => {
+    const clientHandler = { handler, client }
+    this.handlers.push(clientHandler)
     return Disposable.create(() => {
-      const index = this.handlers.indexOf(handler)
+      const index = this.handlers.indexOf(clientHandler)
       if (index >= 0) {
         this.handlers.splice(index, 1)
       }
     })
   }
 
+  /**
+   * @param originators The clients which originated the request, by priority
+   */
+  public dispatchRequest = async (params: T, token: CancellationToken, originators: unknown[] = []): Promise<HandlerResult<R, E>> => {
+    const originatorHandlers = originators.flatMap(originator => this.handlers.filter(({ client }) => client === originator))
+    const otherHandlers = this.handlers.filter(handler => !originatorHandlers.includes(handler))
+    return this.strategy(
+      [...originatorHandlers, ...otherHandlers],
+      originatorHandlers.length,
+      params,
+      token
+    )
+  }
+
   public sendRequest: RequestHandler<T, R, E> = async (params, token) => {
-    return this.merger(await Promise.all(this.handlers.map(async handler => {
-      return await handler(params, token)
-    })))
+    return this.dispatchRequest(params, token)
   }
 }
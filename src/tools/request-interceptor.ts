@@ -0,0 +1,43 @@
+import * as rpc from 'vscode-jsonrpc'
+import { CancellationToken, MessageSignature } from 'vscode-jsonrpc'
+
+/**
+ * Sends the request to the next interceptor, or to the connection after the last one
+ */
+export type NextRequestSender = (args: unknown[], token?: CancellationToken) => Promise<unknown>
+
+/**
+ * Handles a request sent through the connection
+ * @param args The request arguments, without the cancellation token of the caller
+ */
+export type RequestInterceptor = (method: string, args: unknown[], token: CancellationToken | undefined, next: NextRequestSender) => Promise<unknown>
+
+type UntypedSendRequest = (methodOrType: string | MessageSignature, ...args: unknown[]) => Promise<unknown>
+
+/**
+ * @returns The arguments of a `sendRequest` call and the cancellation token of the caller
+ */
+function splitRequestArgs (args: unknown[]): { realArgs: unknown[], token?: CancellationToken } {
+  const token = args[args.length - 1]
+  return CancellationToken.is(token) ? { realArgs: args.slice(0, -1), token } : { realArgs: args }
+}
+
+/**
+ * @param interceptors The first interceptor is the first to handle the requests
+ * @returns A connection whose requests go through the interceptors, the other methods are the ones of the connection
+ */
+export function interceptRequests (connection: rpc.MessageConnection, ...interceptors: RequestInterceptor[]): rpc.MessageConnection {
+  const sendRequest = connection.sendRequest.bind(connection) as UntypedSendRequest
+  return {
+    ...connection,
+    sendRequest: <R>(methodOrType: string | MessageSignature, ...args: unknown[]) => {
+      const method = typeof methodOrType === 'string' ? methodOrType : methodOrType.method
+      const send = interceptors.reduceRight<NextRequestSender>(
+        (next, interceptor) => (args, token) => interceptor(method, args, token, next),
+        (args, token) => token != null ? sendRequest(methodOrType, ...args, token) : sendRequest(methodOrType, ...args)
+      )
+      const { realArgs, token } = splitRequestArgs(args)
+      return send(realArgs, token) as Promise<R>
+    }
+  }
+}
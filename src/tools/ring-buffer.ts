@@ -0,0 +1,38 @@
+/**
+ * Fixed size buffer dropping the oldest items when full
+ */
+export class RingBuffer<T> {
+  private items: T[] = []
+  private start = 0
+
+  constructor (private capacity: number) {
+  }
+
+  push (item: T): void {
+    if (this.capacity <= 0) {
+      return
+    }
+    if (this.items.length < this.capacity) {
+      this.items.push(item)
+    } else {
+      this.items[this.start] = item
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  clear (): void {
+    this.items = []
+    this.start = 0
+  }
+
+  get size (): number {
+    return this.items.length
+  }
+
+  /**
+   * @returns The items, from the oldest to the newest
+   */
+  toArray (): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)]
+  }
+}